@@ -1,9 +1,16 @@
 import { Composition } from "remotion";
 import TetrisApp from "./tetris/TetrisApp";
+import { TetrisVideo, createDemoInputs, tetrisVideoSchema } from "./tetris/TetrisVideo";
+
+const GAMEPLAY_FRAMES = 3600;
+const GAMEPLAY_SEED = 2024;
+// Simulated once, when the module loads, rather than on every render.
+const GAMEPLAY_INPUTS = createDemoInputs(GAMEPLAY_FRAMES, GAMEPLAY_SEED);
 
 /**
  * PUBLIC_INTERFACE
- * RemotionRoot - registers the TetrisApp main game for Remotion compositions.
+ * RemotionRoot - registers the TetrisApp main game for Remotion compositions,
+ * plus a frame-driven gameplay video that renders deterministically.
  */
 export const RemotionRoot: React.FC = () => {
   return (
@@ -17,6 +24,20 @@ export const RemotionRoot: React.FC = () => {
         height={800}
         defaultProps={{}}
       />
+      <Composition
+        id="TetrisGameplay"
+        component={TetrisVideo}
+        schema={tetrisVideoSchema}
+        durationInFrames={GAMEPLAY_FRAMES}
+        fps={60}
+        width={600}
+        height={800}
+        defaultProps={{
+          seed: GAMEPLAY_SEED,
+          mode: "marathon",
+          inputs: GAMEPLAY_INPUTS,
+        }}
+      />
     </>
   );
 };
@@ -0,0 +1,240 @@
+/* global CanvasRenderingContext2D */
+import React, { useLayoutEffect, useRef } from "react";
+import { Board, PieceState, TetrominoType } from "../tetris/types";
+import {
+  BLOCK_INSET,
+  BLOCK_SHRINK,
+  DrawnCell,
+  composeCells,
+  getCellPitch,
+  getPreviewMask,
+  isSameCell,
+} from "./boardCells";
+import { CellPattern, Theme, useTheme } from "./themes";
+
+const BLOCK_RADIUS = 8.5;
+const GHOST_ALPHA = 0.42;
+
+// Preview boxes: smaller blocks and a padded, rounded background.
+const PREVIEW_SHRINK = 7.5;
+const PREVIEW_MARGIN = 1.1;
+const PREVIEW_PADDING = 4;
+const PREVIEW_RADIUS = 11;
+
+let canvasSupport: boolean | null = null;
+
+/**
+ * PUBLIC_INTERFACE
+ * Whether 2D canvas drawing works here; the DOM renderer is used otherwise.
+ */
+export function supportsCanvas(): boolean {
+  if (canvasSupport === null) {
+    try {
+      canvasSupport = !!window.document.createElement("canvas").getContext("2d");
+    } catch {
+      canvasSupport = false;
+    }
+  }
+  return canvasSupport;
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  const radius = Math.min(r, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
+
+// Canvas version of the CSS patterns in themes.ts, tiled from the block's
+// top-left corner. Expects the block path to be clipped already.
+function drawPattern(ctx: CanvasRenderingContext2D, pattern: CellPattern, x: number, y: number, size: number) {
+  const stripes = (angle: number) => {
+    ctx.save();
+    ctx.translate(x + size / 2, y + size / 2);
+    ctx.rotate((angle * Math.PI) / 180);
+    for (let offset = -size; offset < size; offset += 6) ctx.fillRect(-size, offset, size * 2, 2);
+    ctx.restore();
+  };
+  switch (pattern) {
+    case "none":
+      return;
+    case "horizontal":
+      return stripes(0);
+    case "vertical":
+      return stripes(90);
+    case "diagonal":
+      return stripes(45);
+    case "antiDiagonal":
+      return stripes(-45);
+    case "dots":
+      ctx.beginPath();
+      for (let dy = 3.5; dy < size + 3.5; dy += 7) {
+        for (let dx = 3.5; dx < size + 3.5; dx += 7) {
+          ctx.moveTo(x + dx + 1.8, y + dy);
+          ctx.arc(x + dx, y + dy, 1.8, 0, Math.PI * 2);
+        }
+      }
+      ctx.fill();
+      return;
+    case "checker":
+      for (let dy = 0; dy < size; dy += 8) {
+        for (let dx = 0; dx < size; dx += 8) {
+          ctx.fillRect(x + dx + 4, y + dy, 4, 4);
+          ctx.fillRect(x + dx, y + dy + 4, 4, 4);
+        }
+      }
+      return;
+  }
+}
+
+function drawBlock(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  type: TetrominoType,
+  x: number,
+  y: number,
+  size: number,
+  radius: number,
+  borderWidth: number
+) {
+  roundRect(ctx, x, y, size, size, radius);
+  ctx.fillStyle = theme.pieces[type];
+  ctx.fill();
+  const pattern = theme.patterns ? theme.patterns[type] : "none";
+  if (pattern !== "none") {
+    ctx.save();
+    ctx.clip();
+    ctx.fillStyle = theme.board.patternInk;
+    drawPattern(ctx, pattern, x, y, size);
+    ctx.restore();
+    roundRect(ctx, x, y, size, size, radius);
+  }
+  ctx.lineWidth = borderWidth;
+  ctx.strokeStyle = theme.board.blockBorder;
+  ctx.stroke();
+}
+
+// Redraws one board cell, clearing whatever was there.
+function drawCell(ctx: CanvasRenderingContext2D, theme: Theme, cell: DrawnCell, x: number, y: number, cellSize: number) {
+  const pitch = getCellPitch(cellSize);
+  const size = cellSize - BLOCK_SHRINK;
+  const bx = x * pitch + BLOCK_INSET;
+  const by = y * pitch + BLOCK_INSET;
+  ctx.clearRect(x * pitch, y * pitch, pitch, pitch);
+  if (cell.type === null) {
+    roundRect(ctx, bx, by, size, size, BLOCK_RADIUS);
+    ctx.fillStyle = theme.board.cell;
+    ctx.fill();
+  } else if (cell.ghost) {
+    roundRect(ctx, bx, by, size, size, BLOCK_RADIUS);
+    ctx.globalAlpha = GHOST_ALPHA;
+    ctx.fillStyle = theme.board.ghost;
+    ctx.fill();
+    ctx.lineWidth = 1.3;
+    ctx.strokeStyle = theme.board.blockBorder;
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+  } else {
+    drawBlock(ctx, theme, cell.type, bx, by, size, BLOCK_RADIUS, 1.3);
+  }
+}
+
+// Sizes the backing store for the device pixel ratio; clears the canvas.
+function resize(canvas: React.ElementRef<"canvas">, ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+}
+
+type Drawn = { cells: DrawnCell[][]; theme: Theme; cellSize: number };
+
+/**
+ * PUBLIC_INTERFACE
+ * Canvas counterpart of BoardView with the same props. Keeps what it drew
+ * last and only repaints cells that changed, so a falling piece costs a
+ * handful of blocks per frame instead of a full re-render.
+ */
+export const BoardCanvas: React.FC<{
+  board: Board;
+  piece: PieceState | null;
+  cellSize: number;
+  hiddenRows?: number;
+}> = React.memo(({ board, piece, cellSize, hiddenRows = 0 }) => {
+  const theme = useTheme();
+  const canvasRef = useRef<React.ElementRef<"canvas">>(null);
+  const drawnRef = useRef<Drawn | null>(null);
+  const cells = composeCells(board, piece, hiddenRows);
+  const rows = cells.length;
+  const cols = cells[0].length;
+  const pitch = getCellPitch(cellSize);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas && canvas.getContext("2d");
+    if (!canvas || !ctx) return;
+    const last = drawnRef.current;
+    const full =
+      !last ||
+      last.theme !== theme ||
+      last.cellSize !== cellSize ||
+      last.cells.length !== rows ||
+      last.cells[0].length !== cols;
+    if (full) resize(canvas, ctx, cols * pitch, rows * pitch);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        if (full || !isSameCell(last.cells[y][x], cells[y][x])) drawCell(ctx, theme, cells[y][x], x, y, cellSize);
+      }
+    }
+    drawnRef.current = { cells, theme, cellSize };
+  });
+
+  return <canvas ref={canvasRef} style={{ display: "block", width: cols * pitch, height: rows * pitch }} />;
+});
+
+/**
+ * PUBLIC_INTERFACE
+ * Canvas counterpart of NextPiecePreview with the same props.
+ */
+export const PiecePreviewCanvas: React.FC<{
+  pieceType: TetrominoType | null;
+  cellSize: number;
+  dimmed?: boolean;
+}> = React.memo(({ pieceType, cellSize, dimmed = false }) => {
+  const theme = useTheme();
+  const canvasRef = useRef<React.ElementRef<"canvas">>(null);
+  const box = cellSize * 4 + PREVIEW_PADDING * 2;
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas && canvas.getContext("2d");
+    if (!canvas || !ctx || !pieceType) return;
+    resize(canvas, ctx, box, box);
+    roundRect(ctx, 0, 0, box, box, PREVIEW_RADIUS);
+    ctx.fillStyle = theme.board.background;
+    ctx.fill();
+    const size = cellSize - PREVIEW_SHRINK;
+    const pitch = size + PREVIEW_MARGIN * 2;
+    const origin = (box - pitch * 4) / 2 + PREVIEW_MARGIN;
+    getPreviewMask(pieceType).forEach((row, y) => {
+      row.forEach((filled, x) => {
+        const bx = origin + x * pitch;
+        const by = origin + y * pitch;
+        if (filled) {
+          drawBlock(ctx, theme, pieceType, bx, by, size, 6, 1.2);
+        } else {
+          roundRect(ctx, bx, by, size, size, 6);
+          ctx.fillStyle = theme.board.cell;
+          ctx.fill();
+        }
+      });
+    });
+  }, [pieceType, cellSize, box, theme]);
+
+  if (!pieceType) return <div style={{ height: cellSize * 4, width: cellSize * 4 }} />;
+  return <canvas ref={canvasRef} style={{ display: "block", width: box, height: box, opacity: dimmed ? 0.4 : 1 }} />;
+});
@@ -0,0 +1,66 @@
+import React from "react";
+import { Board, PieceState } from "../tetris/types";
+import { DrawnCell, composeCells } from "./boardCells";
+import { Theme, getBlockBackground, useTheme } from "./themes";
+
+const drawCell = (
+  { type, ghost }: DrawnCell,
+  x: number,
+  y: number,
+  cellSize: number,
+  theme: Theme
+) => {
+  const filled = type !== null;
+  // Modern touch-optimized block: No debug outlines, only soft shadow and border for filled cells
+  const style: React.CSSProperties = {
+    width: cellSize - 3.5,
+    height: cellSize - 3.5,
+    background:
+      ghost
+        ? theme.board.ghost
+        : filled
+          ? getBlockBackground(theme, type)
+          : theme.board.cell,
+    border: filled ? `1.3px solid ${theme.board.blockBorder}` : "none",
+    borderRadius: 8.5,
+    margin: 1.2,
+    boxSizing: "border-box",
+    boxShadow: filled && !ghost ? "0 2.3px 13px #0013, 0 1.1px 7px #181c232e" : undefined,
+    opacity: ghost ? 0.42 : 1,
+    transition: "background 0.11s, border 0.12s",
+  };
+  return (
+    <div
+      className="tetris-cell"
+      key={`cell-${x}-${y}${ghost ? "-g" : ""}`}
+      style={style}
+    />
+  );
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Presentational playfield: the settled board plus the active piece and its
+ * ghost, as styled divs. Used by the video compositions and replays, and
+ * by the game where canvas is unavailable (see BoardCanvas).
+ * The top `hiddenRows` rows (the spawn buffer) are not drawn.
+ */
+export const BoardView: React.FC<{
+  board: Board;
+  piece: PieceState | null;
+  cellSize: number;
+  hiddenRows?: number;
+}> = ({ board, piece, cellSize, hiddenRows = 0 }) => {
+  const theme = useTheme();
+  return (
+    <>
+      {composeCells(board, piece, hiddenRows).map((row, i) => (
+        <div style={{ display: "flex" }} key={`row-${i + hiddenRows}`}>
+          {row.map((cell, x) =>
+            drawCell(cell, x, i + hiddenRows, cellSize, theme)
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
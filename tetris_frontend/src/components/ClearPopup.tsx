@@ -0,0 +1,51 @@
+import React from "react";
+import { ClearEvent } from "../tetris/scoring";
+import { useTheme } from "./themes";
+
+// How long a pop-up stays on screen (the clear-popup animation).
+const CLEAR_POPUP_MS = 1400;
+
+/**
+ * PUBLIC_INTERFACE
+ * Floating labels for a scoring lock ("T-SPIN DOUBLE", "B2B", "COMBO x4")
+ * with the points earned. Give it a new `key` per event to replay the
+ * animation; `onDone` fires when it has faded out.
+ */
+export const ClearPopup: React.FC<{
+  event: ClearEvent;
+  cellSize: number;
+  onDone?: () => void;
+}> = ({ event, cellSize, onDone }) => {
+  const { colors } = useTheme();
+  const [headline, ...extras] = event.labels;
+  return (
+    <div
+      aria-hidden
+      onAnimationEnd={onDone}
+      style={{
+        position: "absolute",
+        zIndex: 5,
+        left: 0,
+        right: 0,
+        top: "28%",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        gap: 2,
+        pointerEvents: "none",
+        fontWeight: 900,
+        letterSpacing: 1.5,
+        textShadow: "0 2px 10px #000c",
+        animation: `clear-popup ${CLEAR_POPUP_MS}ms ease-out forwards`,
+      }}
+    >
+      <span style={{ fontSize: Math.round(cellSize * 0.9), color: colors.accent }}>{headline}</span>
+      {extras.map((label) => (
+        <span key={label} style={{ fontSize: Math.round(cellSize * 0.6), color: colors.secondary }}>
+          {label}
+        </span>
+      ))}
+      <span style={{ fontSize: Math.round(cellSize * 0.55), color: colors.text }}>+{event.points}</span>
+    </div>
+  );
+};
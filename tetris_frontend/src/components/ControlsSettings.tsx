@@ -0,0 +1,453 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FRAME_MS } from "../tetris/game";
+import {
+  ACTION_LABELS,
+  BINDABLE_ACTIONS,
+  BindableAction,
+  DEFAULT_KEY_BINDINGS,
+  KeyBindings,
+  bindInput,
+  findConflicts,
+  formatKey,
+  normalizeKey,
+  unbindInput,
+} from "../tetris/bindings";
+import {
+  DEFAULT_GAMEPAD_BINDINGS,
+  GamepadBindings,
+  formatButton,
+  isGamepadSupported,
+  readPressedButtons,
+} from "../tetris/gamepad";
+import { DEFAULT_HANDLING, HandlingConfig } from "../tetris/input";
+import { DEFAULT_GESTURES, GestureConfig } from "../tetris/gestures";
+import { AudioSettings, DEFAULT_AUDIO } from "../tetris/audio";
+import { DEFAULT_EFFECTS, EffectsSettings } from "./effects";
+import { Theme, useTheme } from "./themes";
+import { useDialogFocus } from "./useDialogFocus";
+
+const getButtonStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  fontSize: 14,
+  fontWeight: 700,
+  borderRadius: 8,
+  border: `1.5px solid ${colors.primary}`,
+  background: colors.surface,
+  color: colors.accent,
+  padding: "4px 10px",
+  cursor: "pointer",
+});
+
+const getKeyChipStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  display: "inline-flex",
+  alignItems: "center",
+  gap: 4,
+  borderRadius: 6,
+  background: colors.card,
+  color: colors.text,
+  padding: "2px 4px 2px 8px",
+  fontSize: 14,
+  fontWeight: 600,
+});
+
+const HANDLING_FIELDS: {
+  key: keyof HandlingConfig;
+  label: string;
+  min: number;
+  max: number;
+  unit: string;
+}[] = [
+  { key: "dasMs", label: "DAS (delayed auto shift)", min: 0, max: 400, unit: "ms" },
+  { key: "arrMs", label: "ARR (auto repeat rate)", min: 0, max: 100, unit: "ms" },
+  { key: "softDropFactor", label: "Soft drop factor", min: 1, max: 60, unit: "x" },
+];
+
+const GESTURE_FIELDS: {
+  key: "dragCellRatio" | "flickVelocity";
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: "dragCellRatio",
+    label: "Drag distance per cell",
+    min: 0.3,
+    max: 1.5,
+    step: 0.05,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  {
+    key: "flickVelocity",
+    label: "Flick speed for hard drop",
+    min: 0.4,
+    max: 3,
+    step: 0.1,
+    format: (value) => `${value.toFixed(1)}px/ms`,
+  },
+];
+
+const VOLUME_FIELDS: { key: keyof AudioSettings; label: string }[] = [
+  { key: "music", label: "Music volume" },
+  { key: "effects", label: "Effects volume" },
+];
+
+const EFFECT_FIELDS: { key: keyof EffectsSettings; label: string }[] = [
+  { key: "lineClear", label: "Line clear flash" },
+  { key: "shake", label: "Screen shake on a Tetris" },
+  { key: "dust", label: "Landing dust on hard drop" },
+  { key: "levelUp", label: "Level-up banner" },
+];
+
+const getRemoveChipStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  background: "none",
+  border: "none",
+  color: colors.muted,
+  cursor: "pointer",
+  padding: "0 2px",
+});
+
+type Device = "keyboard" | "gamepad";
+
+type Capture = { action: BindableAction; device: Device };
+
+type PendingConflict =
+  | { action: BindableAction; device: "keyboard"; input: string; conflicts: BindableAction[] }
+  | { action: BindableAction; device: "gamepad"; input: number; conflicts: BindableAction[] };
+
+/**
+ * PUBLIC_INTERFACE
+ * Controls settings: remap keys and gamepad buttons ("press a key to bind",
+ * with conflict detection), tune DAS/ARR/soft drop factor and touch gesture
+ * sensitivity, set music and effect volumes and switch visual effects.
+ * Changes apply immediately; the parent persists them.
+ */
+export const ControlsSettings: React.FC<{
+  bindings: KeyBindings;
+  gamepadBindings: GamepadBindings;
+  handling: HandlingConfig;
+  gestures: GestureConfig;
+  onChangeBindings: (bindings: KeyBindings) => void;
+  onChangeGamepadBindings: (bindings: GamepadBindings) => void;
+  onChangeHandling: (handling: HandlingConfig) => void;
+  onChangeGestures: (gestures: GestureConfig) => void;
+  effects: EffectsSettings;
+  onChangeEffects: (effects: EffectsSettings) => void;
+  audio: AudioSettings;
+  onChangeAudio: (audio: AudioSettings) => void;
+  onClose: () => void;
+}> = ({
+  bindings,
+  gamepadBindings,
+  handling,
+  gestures,
+  onChangeBindings,
+  onChangeGamepadBindings,
+  onChangeHandling,
+  onChangeGestures,
+  effects,
+  onChangeEffects,
+  audio,
+  onChangeAudio,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const { colors } = theme;
+  const buttonStyle = getButtonStyle(colors);
+  const keyChipStyle = getKeyChipStyle(colors);
+  const removeChipStyle = getRemoveChipStyle(colors);
+  const [capturing, setCapturing] = useState<Capture | null>(null);
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+  const gamepadSupported = isGamepadSupported();
+
+  const applyPending = (conflict: PendingConflict) => {
+    if (conflict.device === "keyboard") {
+      onChangeBindings(bindInput(bindings, conflict.action, conflict.input));
+    } else {
+      onChangeGamepadBindings(bindInput(gamepadBindings, conflict.action, conflict.input));
+    }
+  };
+
+  // Binds directly, or asks first when another action already uses the input.
+  const offer = (conflict: PendingConflict) => {
+    if (conflict.conflicts.length > 0) setPending(conflict);
+    else applyPending(conflict);
+  };
+
+  const dialogRef = useRef<React.ElementRef<"div">>(null);
+  // Escape closes the dialog unless it is cancelling a key capture below.
+  useDialogFocus(dialogRef, true, onClose);
+
+  useEffect(() => {
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!capturing) return;
+      // Swallow the key so the game does not react to it.
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.repeat) return;
+      if (e.key === "Escape" || capturing.device !== "keyboard") {
+        setCapturing(null);
+        return;
+      }
+      setCapturing(null);
+      const { action } = capturing;
+      const key = normalizeKey(e.key);
+      if (bindings[action].indexOf(key) !== -1) return;
+      offer({ action, device: "keyboard", input: key, conflicts: findConflicts(bindings, key, action) });
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  });
+
+  // Gamepad capture: wait for a button that was not already down.
+  useEffect(() => {
+    if (!capturing || capturing.device !== "gamepad") return;
+    const { action } = capturing;
+    const alreadyDown = readPressedButtons();
+    const id = setInterval(() => {
+      const button = readPressedButtons().find((b) => alreadyDown.indexOf(b) === -1);
+      if (button === undefined) return;
+      setCapturing(null);
+      if (gamepadBindings[action].indexOf(button) !== -1) return;
+      offer({
+        action,
+        device: "gamepad",
+        input: button,
+        conflicts: findConflicts(gamepadBindings, button, action),
+      });
+    }, FRAME_MS);
+    return () => clearInterval(id);
+  }, [capturing, gamepadBindings]);
+
+  const captureButton = (action: BindableAction, device: Device, label: string) => {
+    const active = capturing !== null && capturing.action === action && capturing.device === device;
+    return (
+      <button
+        style={{
+          ...buttonStyle,
+          background: active ? colors.primary : buttonStyle.background,
+          color: active ? colors.onPrimary : colors.accent,
+        }}
+        aria-label={`Add ${device === "keyboard" ? "key" : "gamepad button"} for ${ACTION_LABELS[action]}`}
+        onClick={() => {
+          setPending(null);
+          setCapturing(active ? null : { action, device });
+        }}
+      >
+        {active ? (device === "keyboard" ? "Press a key…" : "Press a button…") : label}
+      </button>
+    );
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Controls settings"
+      tabIndex={-1}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: colors.backdrop,
+        fontFamily: theme.font,
+        color: colors.text,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{
+        background: colors.panel,
+        border: `2px solid ${colors.secondary}`,
+        borderRadius: 16,
+        padding: "18px 22px",
+        width: "min(520px, 94vw)",
+        boxShadow: "0 6px 32px -4px #1a1c338c",
+      }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+          <span style={{ fontSize: 24, fontWeight: 800, color: colors.accent }}>CONTROLS</span>
+          <button style={buttonStyle} onClick={onClose}>Done</button>
+        </div>
+
+        {BINDABLE_ACTIONS.map((action) => (
+          <div
+            key={action}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 8,
+              padding: "5px 0",
+              borderBottom: `1px solid ${colors.border}`,
+            }}
+          >
+            <span style={{ fontSize: 15 }}>{ACTION_LABELS[action]}</span>
+            <span style={{ display: "flex", flexWrap: "wrap", gap: 6, justifyContent: "flex-end" }}>
+              {bindings[action].map((key) => (
+                <span key={key} style={keyChipStyle}>
+                  {formatKey(key)}
+                  <button
+                    aria-label={`Unbind ${formatKey(key)} from ${ACTION_LABELS[action]}`}
+                    onClick={() => onChangeBindings(unbindInput(bindings, action, key))}
+                    style={removeChipStyle}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              {captureButton(action, "keyboard", "+")}
+              {gamepadBindings[action].map((button) => (
+                <span key={`pad-${button}`} style={{ ...keyChipStyle, background: colors.cardAlt }}>
+                  🎮 {formatButton(button)}
+                  <button
+                    aria-label={`Unbind ${formatButton(button)} from ${ACTION_LABELS[action]}`}
+                    onClick={() => onChangeGamepadBindings(unbindInput(gamepadBindings, action, button))}
+                    style={removeChipStyle}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              {gamepadSupported && captureButton(action, "gamepad", "+🎮")}
+            </span>
+          </div>
+        ))}
+
+        {pending && (
+          <div
+            role="alert"
+            style={{ marginTop: 12, padding: 10, borderRadius: 8, background: colors.cardAlt }}
+          >
+            {pending.device === "keyboard" ? formatKey(pending.input) : formatButton(pending.input)}
+            {" "}is already used for{" "}
+            {pending.conflicts.map((a) => ACTION_LABELS[a]).join(", ")}.
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button
+                style={buttonStyle}
+                onClick={() => {
+                  applyPending(pending);
+                  setPending(null);
+                }}
+              >
+                Use for {ACTION_LABELS[pending.action]}
+              </button>
+              <button style={buttonStyle} onClick={() => setPending(null)}>Cancel</button>
+            </div>
+          </div>
+        )}
+
+        <div style={{ fontSize: 17, fontWeight: 700, color: colors.accent, margin: "16px 0 6px" }}>
+          Handling
+        </div>
+        {HANDLING_FIELDS.map(({ key, label, min, max, unit }) => (
+          <label
+            key={key}
+            style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, padding: "4px 0" }}
+          >
+            <span style={{ fontSize: 15 }}>{label}</span>
+            <span style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                value={handling[key]}
+                onChange={(e) => onChangeHandling({ ...handling, [key]: Number(e.target.value) })}
+              />
+              <span style={{ width: 52, textAlign: "right", fontVariantNumeric: "tabular-nums" }}>
+                {handling[key]}{unit}
+              </span>
+            </span>
+          </label>
+        ))}
+
+        <div style={{ fontSize: 17, fontWeight: 700, color: colors.accent, margin: "16px 0 6px" }}>
+          Touch gestures
+        </div>
+        <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 4 }}>
+          Drag on the board to move, tap to rotate (two fingers: counter-clockwise),
+          drag down to soft drop, flick down to hard drop.
+        </div>
+        {GESTURE_FIELDS.map(({ key, label, min, max, step, format }) => (
+          <label
+            key={key}
+            style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, padding: "4px 0" }}
+          >
+            <span style={{ fontSize: 15 }}>{label}</span>
+            <span style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={gestures[key]}
+                onChange={(e) => onChangeGestures({ ...gestures, [key]: Number(e.target.value) })}
+              />
+              <span style={{ width: 72, textAlign: "right", fontVariantNumeric: "tabular-nums" }}>
+                {format(gestures[key])}
+              </span>
+            </span>
+          </label>
+        ))}
+
+        <div style={{ fontSize: 17, fontWeight: 700, color: colors.accent, margin: "16px 0 6px" }}>
+          Sound
+        </div>
+        {VOLUME_FIELDS.map(({ key, label }) => (
+          <label
+            key={key}
+            style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, padding: "4px 0" }}
+          >
+            <span style={{ fontSize: 15 }}>{label}</span>
+            <span style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(audio[key] * 100)}
+                onChange={(e) => onChangeAudio({ ...audio, [key]: Number(e.target.value) / 100 })}
+              />
+              <span style={{ width: 52, textAlign: "right", fontVariantNumeric: "tabular-nums" }}>
+                {Math.round(audio[key] * 100)}%
+              </span>
+            </span>
+          </label>
+        ))}
+
+        <div style={{ fontSize: 17, fontWeight: 700, color: colors.accent, margin: "16px 0 6px" }}>
+          Effects
+        </div>
+        {EFFECT_FIELDS.map(({ key, label }) => (
+          <label key={key} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", fontSize: 15 }}>
+            <input
+              type="checkbox"
+              checked={effects[key]}
+              onChange={(e) => onChangeEffects({ ...effects, [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+
+        <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+          <button
+            style={buttonStyle}
+            onClick={() => {
+              setPending(null);
+              setCapturing(null);
+              onChangeBindings(DEFAULT_KEY_BINDINGS);
+              onChangeGamepadBindings(DEFAULT_GAMEPAD_BINDINGS);
+              onChangeHandling(DEFAULT_HANDLING);
+              onChangeGestures(DEFAULT_GESTURES);
+              onChangeEffects(DEFAULT_EFFECTS);
+              onChangeAudio(DEFAULT_AUDIO);
+            }}
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { LockEvent } from "../tetris/game";
+import { BLOCK_INSET, BLOCK_SHRINK, getCellPitch } from "./boardCells";
+import { EffectsSettings } from "./effects";
+import { getBlockBackground, useTheme } from "./themes";
+
+// Animation lengths; see the keyframes in tetris.css.
+const ROW_CLEAR_MS = 380;
+const DUST_MS = 450;
+const LEVEL_BANNER_MS = 1400;
+
+// How long a burst stays mounted: its longest animation.
+const BURST_MS = Math.max(ROW_CLEAR_MS, DUST_MS, LEVEL_BANNER_MS);
+
+type Burst = { id: number; lock: LockEvent };
+
+// The effects for one lock, positioned over the board cells. Calls
+// `onDone(id)` once they have all finished.
+const LockBurst: React.FC<{
+  id: number;
+  lock: LockEvent;
+  cols: number;
+  cellSize: number;
+  hiddenRows: number;
+  settings: EffectsSettings;
+  onDone: (id: number) => void;
+}> = ({ id, lock, cols, cellSize, hiddenRows, settings, onDone }) => {
+  const theme = useTheme();
+  const { colors } = theme;
+  const pitch = getCellPitch(cellSize);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => onDone(id), BURST_MS);
+    return () => window.clearTimeout(timer);
+  }, [id, onDone]);
+
+  // Dust comes from under the lowest block of each column the piece covers.
+  const floor: { x: number; y: number }[] = [];
+  if (settings.dust && lock.dropDistance > 0) {
+    lock.cells.forEach(({ x, y }) => {
+      const existing = floor.filter((cell) => cell.x === x)[0];
+      if (!existing) floor.push({ x, y });
+      else if (y > existing.y) existing.y = y;
+    });
+  }
+
+  return (
+    <>
+      {/* The cleared rows' blocks are gone from the board (the rows above
+          have fallen into place), so they are redrawn here as they flash. */}
+      {settings.lineClear &&
+        lock.clearedRows.map((row, i) =>
+          row < hiddenRows ? null : (
+            <div
+              key={`row-${row}`}
+              style={{
+                position: "absolute",
+                left: 0,
+                top: (row - hiddenRows) * pitch,
+                display: "flex",
+                width: cols * pitch,
+                height: pitch,
+                animation: `row-clear ${ROW_CLEAR_MS}ms ease-out forwards`,
+              }}
+            >
+              {lock.clearedCells[i].map((type, x) => (
+                <div
+                  key={x}
+                  style={{
+                    width: cellSize - BLOCK_SHRINK,
+                    height: cellSize - BLOCK_SHRINK,
+                    margin: BLOCK_INSET,
+                    boxSizing: "border-box",
+                    borderRadius: 8.5,
+                    border: `1.3px solid ${theme.board.blockBorder}`,
+                    background: type ? getBlockBackground(theme, type) : theme.board.cell,
+                  }}
+                />
+              ))}
+              <div
+                style={{
+                  position: "absolute",
+                  inset: 0,
+                  borderRadius: 6,
+                  background: `linear-gradient(90deg, transparent, ${colors.text}, transparent)`,
+                }}
+              />
+            </div>
+          )
+        )}
+      {floor
+        .filter(({ y }) => y >= hiddenRows)
+        .map(({ x, y }) =>
+          (["left", "right"] as const).map((side) => (
+            <div
+              key={`dust-${x}-${side}`}
+              style={{
+                position: "absolute",
+                left: x * pitch + (side === "left" ? 0 : pitch / 2),
+                top: (y - hiddenRows + 1) * pitch - pitch / 4,
+                width: pitch / 2,
+                height: pitch / 3,
+                borderRadius: "50%",
+                background: colors.muted,
+                animation: `landing-dust-${side} ${DUST_MS}ms ease-out forwards`,
+              }}
+            />
+          ))
+        )}
+      {settings.levelUp && lock.levelUp !== null && (
+        <div
+          style={{
+            position: "absolute",
+            left: 0,
+            right: 0,
+            top: "45%",
+            padding: "6px 0",
+            textAlign: "center",
+            fontWeight: 900,
+            letterSpacing: 3,
+            fontSize: Math.round(cellSize * 0.9),
+            color: colors.onPrimary,
+            background: colors.primary,
+            boxShadow: "0 2px 14px #0008",
+            animation: `level-banner ${LEVEL_BANNER_MS}ms ease-out forwards`,
+          }}
+        >
+          LEVEL {lock.levelUp + 1}
+        </div>
+      )}
+    </>
+  );
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Line-clear flashes, landing dust and the level-up banner for each lock,
+ * drawn over the visible board. Place it in a relatively positioned box
+ * whose top-left corner is the board's. Overlapping locks each play out.
+ */
+export const EffectsLayer: React.FC<{
+  lock: LockEvent | null;
+  cols: number;
+  cellSize: number;
+  hiddenRows?: number;
+  settings: EffectsSettings;
+}> = ({ lock, cols, cellSize, hiddenRows = 0, settings }) => {
+  const [bursts, setBursts] = useState<Burst[]>([]);
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    if (lock) setBursts((prev) => [...prev, { id: nextId.current++, lock }]);
+  }, [lock]);
+
+  const remove = useCallback((id: number) => {
+    setBursts((prev) => prev.filter((burst) => burst.id !== id));
+  }, []);
+
+  if (bursts.length === 0) return null;
+  return (
+    <div aria-hidden style={{ position: "absolute", inset: 0, pointerEvents: "none", zIndex: 4 }}>
+      {bursts.map((burst) => (
+        <LockBurst
+          key={burst.id}
+          id={burst.id}
+          lock={burst.lock}
+          cols={cols}
+          cellSize={cellSize}
+          hiddenRows={hiddenRows}
+          settings={settings}
+          onDone={remove}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from "react";
+import { GameState } from "../tetris/game";
+import { formatDuration, getEndTitle, getMode } from "../tetris/modes";
+import { useTheme } from "./themes";
+
+/**
+ * PUBLIC_INTERFACE
+ * Results for a finished game: a title for how it ended and the stats the
+ * mode is ranked by first. The title inherits the overlay's colour.
+ */
+export const GameResults: React.FC<{ state: GameState }> = ({ state }) => {
+  const { colors } = useTheme();
+  const mode = getMode(state.mode);
+  const time = formatDuration(state.elapsedMs);
+  const stats: [string, string][] = [];
+  if (mode.ranking === "time") {
+    if (state.endReason === "goal") stats.push(["Time", time]);
+    stats.push(["Lines", mode.lineGoal !== null ? `${state.lines} / ${mode.lineGoal}` : `${state.lines}`]);
+    if (state.endReason !== "goal") stats.push(["Time", time]);
+  } else {
+    stats.push(["Score", `${state.score}`], ["Lines", `${state.lines}`]);
+    if (mode.levelUp) stats.push(["Level", `${state.level + 1}`]);
+    stats.push(["Time", time]);
+  }
+  const [headline, ...rest] = stats;
+
+  return (
+    <>
+      <span
+        style={{
+          fontSize: 64,
+          marginBottom: 4,
+          fontWeight: 900,
+          textShadow: `0 4px 20px #000b`,
+        }}
+      >
+        {getEndTitle(state.endReason)}
+      </span>
+      <span style={{ fontSize: 17, color: colors.text, opacity: 0.8, marginBottom: 10, letterSpacing: 1 }}>
+        {mode.name} · Seed {state.seed}
+      </span>
+      <span style={{ fontSize: 27, marginBottom: 2 }}>
+        {headline[0]}: <span style={{ color: colors.accent }}>{headline[1]}</span>
+      </span>
+      <span style={{ display: "flex", gap: 16, fontSize: 17, color: colors.text, fontWeight: 600 }}>
+        {rest.map(([label, value]) => (
+          <span key={label}>
+            {label} <span style={{ color: colors.accent }}>{value}</span>
+          </span>
+        ))}
+      </span>
+    </>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import { HighScoreEntry, MAX_NAME_LENGTH } from "../tetris/highscores";
+import { GameMode, formatDuration } from "../tetris/modes";
+import { useTheme } from "./themes";
+
+const cellStyle: React.CSSProperties = { padding: "1px 6px", textAlign: "right" };
+
+/**
+ * PUBLIC_INTERFACE
+ * Top entries of one mode's leaderboard, best first. `highlight` marks the
+ * entry the player just added.
+ */
+export const HighScoreTable: React.FC<{
+  mode: GameMode;
+  entries: HighScoreEntry[];
+  highlight?: HighScoreEntry | null;
+}> = ({ mode, entries, highlight }) => {
+  const { colors } = useTheme();
+  const byTime = mode.ranking === "time";
+  if (entries.length === 0) {
+    return <div style={{ fontSize: 14, opacity: 0.75 }}>No {mode.name} records yet.</div>;
+  }
+  return (
+    <table
+      aria-label={`${mode.name} high scores`}
+      style={{ fontSize: 14, fontWeight: 600, color: colors.text, borderCollapse: "collapse", letterSpacing: 0.5 }}
+    >
+      <thead>
+        <tr style={{ opacity: 0.7 }}>
+          <th style={cellStyle}>#</th>
+          <th style={{ ...cellStyle, textAlign: "left" }}>Name</th>
+          <th style={cellStyle}>{byTime ? "Time" : "Score"}</th>
+          <th style={cellStyle}>Lines</th>
+          <th style={cellStyle}>{byTime ? "Score" : "Time"}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, i) => {
+          const time = formatDuration(entry.durationMs);
+          return (
+            <tr
+              key={`${entry.date}-${i}`}
+              style={{ color: entry === highlight ? colors.accent : undefined }}
+            >
+              <td style={cellStyle}>{i + 1}</td>
+              <td style={{ ...cellStyle, textAlign: "left" }}>{entry.name}</td>
+              <td style={cellStyle}>{byTime ? time : entry.score}</td>
+              <td style={cellStyle}>{entry.lines}</td>
+              <td style={cellStyle}>{byTime ? entry.score : time}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * "New high score" prompt asking for the player's initials.
+ */
+export const InitialsPrompt: React.FC<{
+  initialName: string;
+  onSubmit: (name: string) => void;
+  onSkip: () => void;
+}> = ({ initialName, onSubmit, onSkip }) => {
+  const { colors } = useTheme();
+  const [name, setName] = useState(initialName);
+  const trimmed = name.trim();
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (trimmed) onSubmit(trimmed);
+      }}
+      style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 8 }}
+    >
+      <span style={{ fontSize: 20, color: colors.accent, letterSpacing: 1 }}>NEW HIGH SCORE!</span>
+      <span style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input
+          autoFocus
+          aria-label="Your initials"
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value.toUpperCase())}
+          style={{
+            width: 70,
+            fontSize: 24,
+            fontWeight: 800,
+            textAlign: "center",
+            letterSpacing: 4,
+            borderRadius: 8,
+            border: `2px solid ${colors.primary}`,
+            background: colors.input,
+            color: colors.accent,
+          }}
+        />
+        <button
+          type="submit"
+          disabled={!trimmed}
+          style={{
+            fontSize: 16,
+            fontWeight: 700,
+            borderRadius: 8,
+            border: "none",
+            background: colors.primary,
+            color: colors.onPrimary,
+            padding: "6px 14px",
+            cursor: "pointer",
+          }}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          style={{
+            fontSize: 14,
+            background: "none",
+            border: "none",
+            color: colors.text,
+            opacity: 0.7,
+            cursor: "pointer",
+          }}
+        >
+          Skip
+        </button>
+      </span>
+    </form>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useRef } from "react";
+import { GAME_MODE_IDS, GameModeId, formatDuration, getMode } from "../tetris/modes";
+import { SavedGame } from "../tetris/savegame";
+import { BOARD_PRESETS, BOARD_PRESET_IDS, BoardPresetId } from "../tetris/rules";
+import { RANDOMIZER_IDS, RandomizerId, getRandomizer } from "../tetris/randomizer";
+import { getDailyKey, getDailySeed, parseSeed } from "../tetris/seeds";
+import { useTheme } from "./themes";
+import { useDialogFocus } from "./useDialogFocus";
+
+const OptionButton: React.FC<{
+  selected: boolean;
+  title?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ selected, title, onClick, children }) => {
+  const { colors } = useTheme();
+  return (
+    <button
+      aria-pressed={selected}
+      title={title}
+      onClick={onClick}
+      style={{
+        fontSize: 13,
+        fontWeight: 700,
+        borderRadius: 8,
+        border: `1.5px solid ${selected ? colors.accent : colors.primary}`,
+        background: selected ? colors.primary : colors.surface,
+        color: selected ? colors.onPrimary : colors.text,
+        padding: "4px 10px",
+        cursor: "pointer",
+      }}
+    >
+      {children}
+    </button>
+  );
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Mode selection menu. Picking a mode starts a new game of it; closing
+ * leaves the current game paused. A saved game, if any, is offered first;
+ * the seed, board and randomizer pickers apply to the next game started
+ * except the daily challenge, which has its own seed and standard rules.
+ */
+export const ModeSelect: React.FC<{
+  current: GameModeId;
+  savedGame?: SavedGame | null;
+  onResume?: () => void;
+  boardPreset: BoardPresetId;
+  onChangeBoardPreset: (preset: BoardPresetId) => void;
+  // null plays each mode with its own randomizer.
+  randomizer: RandomizerId | null;
+  onChangeRandomizer: (randomizer: RandomizerId | null) => void;
+  // Seed for the next game as typed; blank picks a random one.
+  seedText: string;
+  onChangeSeedText: (text: string) => void;
+  onSelect: (mode: GameModeId) => void;
+  onClose: () => void;
+}> = ({
+  current,
+  savedGame,
+  onResume,
+  boardPreset,
+  onChangeBoardPreset,
+  randomizer,
+  onChangeRandomizer,
+  seedText,
+  onChangeSeedText,
+  onSelect,
+  onClose,
+}) => {
+  const dialogRef = useRef<React.ElementRef<"div">>(null);
+  useDialogFocus(dialogRef, true, onClose);
+  const theme = useTheme();
+  const { colors } = theme;
+  const parsedSeed = parseSeed(seedText);
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Choose a game mode"
+      tabIndex={-1}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: colors.backdrop,
+        fontFamily: theme.font,
+        color: colors.text,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{
+        background: colors.panel,
+        border: `2px solid ${colors.secondary}`,
+        borderRadius: 16,
+        padding: "18px 22px",
+        width: "min(440px, 94vw)",
+        boxShadow: "0 6px 32px -4px #1a1c338c",
+      }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+          <span style={{ fontSize: 24, fontWeight: 800, color: colors.accent }}>GAME MODE</span>
+          <button
+            onClick={onClose}
+            style={{
+              fontSize: 14,
+              fontWeight: 700,
+              borderRadius: 8,
+              border: `1.5px solid ${colors.primary}`,
+              background: colors.surface,
+              color: colors.accent,
+              padding: "4px 10px",
+              cursor: "pointer",
+            }}
+          >
+            Close
+          </button>
+        </div>
+        {savedGame && onResume && (
+          <button
+            onClick={onResume}
+            style={{
+              display: "block",
+              width: "100%",
+              textAlign: "left",
+              marginBottom: 16,
+              padding: "10px 14px",
+              borderRadius: 10,
+              border: "none",
+              background: colors.primary,
+              color: colors.onPrimary,
+              fontFamily: theme.font,
+              cursor: "pointer",
+            }}
+          >
+            <div style={{ fontSize: 20, fontWeight: 800 }}>Resume last game</div>
+            <div style={{ fontSize: 14, opacity: 0.9, marginTop: 2 }}>
+              {getMode(savedGame.state.mode).name} · {savedGame.state.score} pts ·{" "}
+              {savedGame.state.lines} lines · {formatDuration(savedGame.state.elapsedMs)}
+            </div>
+          </button>
+        )}
+        {GAME_MODE_IDS.map((id) => {
+          const mode = getMode(id);
+          return (
+            <button
+              key={id}
+              onClick={() => onSelect(id)}
+              style={{
+                display: "block",
+                width: "100%",
+                textAlign: "left",
+                marginBottom: 10,
+                padding: "10px 14px",
+                borderRadius: 10,
+                border: `2px solid ${id === current ? colors.accent : colors.primary}`,
+                background: colors.card,
+                color: colors.text,
+                fontFamily: theme.font,
+                cursor: "pointer",
+              }}
+            >
+              <div style={{ fontSize: 20, fontWeight: 800, color: colors.accent }}>{mode.name}</div>
+              <div style={{ fontSize: 14, opacity: 0.85, marginTop: 2 }}>{mode.description}</div>
+              <div style={{ fontSize: 12, opacity: 0.65, marginTop: 2 }}>
+                {mode.daily
+                  ? `${getDailyKey()} · Seed ${getDailySeed()}`
+                  : `Pieces: ${getRandomizer(randomizer ?? mode.randomizer).name}`}
+              </div>
+            </button>
+          );
+        })}
+        <label style={{ display: "block", fontSize: 15, fontWeight: 700, color: colors.accent, margin: "8px 0 6px" }}>
+          Seed
+          <input
+            value={seedText}
+            placeholder="Random"
+            onChange={(e) => onChangeSeedText(e.target.value)}
+            style={{
+              marginLeft: 10,
+              width: 160,
+              fontSize: 14,
+              fontFamily: theme.font,
+              borderRadius: 8,
+              border: `1.5px solid ${colors.primary}`,
+              background: colors.input,
+              color: colors.text,
+              padding: "4px 8px",
+            }}
+          />
+        </label>
+        {parsedSeed !== null && (
+          <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>
+            {`${parsedSeed}` !== seedText.trim() && `Plays seed ${parsedSeed}. `}
+            Games on a chosen seed do not go on the high score tables.
+          </div>
+        )}
+        <div style={{ fontSize: 15, fontWeight: 700, color: colors.accent, margin: "8px 0 6px" }}>Board</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+          {BOARD_PRESET_IDS.map((id) => (
+            <OptionButton key={id} selected={id === boardPreset} onClick={() => onChangeBoardPreset(id)}>
+              {BOARD_PRESETS[id].name}
+            </OptionButton>
+          ))}
+        </div>
+        <div style={{ fontSize: 15, fontWeight: 700, color: colors.accent, margin: "12px 0 6px" }}>Randomizer</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+          <OptionButton selected={randomizer === null} onClick={() => onChangeRandomizer(null)}>
+            Mode default
+          </OptionButton>
+          {RANDOMIZER_IDS.map((id) => (
+            <OptionButton
+              key={id}
+              selected={id === randomizer}
+              title={getRandomizer(id).description}
+              onClick={() => onChangeRandomizer(id)}
+            >
+              {getRandomizer(id).name}
+            </OptionButton>
+          ))}
+        </div>
+        {randomizer !== null && (
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+            {getRandomizer(randomizer).description}
+          </div>
+        )}
+        {(boardPreset !== "standard" || randomizer !== null) && (
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+            Only games on the standard board with each mode's own randomizer count for the
+            high-score tables.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
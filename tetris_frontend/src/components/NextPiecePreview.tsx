@@ -0,0 +1,58 @@
+import React from "react";
+import { TetrominoType } from "../tetris/types";
+import { getPreviewMask } from "./boardCells";
+import { getBlockBackground, useTheme } from "./themes";
+
+/**
+ * PUBLIC_INTERFACE
+ * A single piece centred in a 4x4 box, used for the NEXT queue and HOLD slot.
+ */
+export const NextPiecePreview: React.FC<{
+  pieceType: TetrominoType | null;
+  cellSize: number;
+  // Greyed out, e.g. the hold slot after it was used for the current piece.
+  dimmed?: boolean;
+}> = ({ pieceType, cellSize, dimmed = false }) => {
+  const theme = useTheme();
+  if (!pieceType) return <div style={{ height: cellSize * 4, width: cellSize * 4 }} />;
+  const block = getBlockBackground(theme, pieceType);
+  const preview = getPreviewMask(pieceType).map((row) => row.map((filled) => (filled ? block : null)));
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        height: cellSize * 4,
+        width: cellSize * 4,
+        background: theme.board.background,
+        borderRadius: 11,
+        opacity: dimmed ? 0.4 : 1,
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 0,
+        padding: 4,
+      }}
+    >
+      {preview.map((row, y) => (
+        <div style={{ display: "flex" }} key={y}>
+          {row.map((cell, x) => (
+            <div
+              key={x}
+              style={{
+                width: cellSize - 7.5,
+                height: cellSize - 7.5,
+                margin: 1.1,
+                borderRadius: 6,
+                background: cell ? cell : theme.board.cell,
+                boxShadow: cell ? "0 1.3px 8px #0006" : "none",
+                border: cell ? `1.2px solid ${theme.board.blockBorder}` : "none",
+                transition: "background 0.13s, border 0.15s",
+              }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FRAME_MS } from "../tetris/game";
+import { Replay, createReplayCursor } from "../tetris/replay";
+import { getMode } from "../tetris/modes";
+import { BoardView } from "./BoardView";
+import { NextPiecePreview } from "./NextPiecePreview";
+import { Theme, useTheme } from "./themes";
+import { useDialogFocus } from "./useDialogFocus";
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const getControlBtnStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  fontSize: 16,
+  fontWeight: 700,
+  borderRadius: 10,
+  border: `2px solid ${colors.primary}`,
+  background: colors.surface,
+  color: colors.accent,
+  padding: "6px 12px",
+  cursor: "pointer",
+});
+
+function formatTime(frames: number, frameMs: number): string {
+  const total = Math.floor((frames * frameMs) / 1000);
+  const secs = total % 60;
+  return `${Math.floor(total / 60)}:${secs < 10 ? "0" : ""}${secs}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Full-screen replay viewer: plays a recorded game back through the engine at
+ * 0.5x-4x with pause, frame stepping and seeking.
+ */
+export const ReplayPlayer: React.FC<{
+  replays: Replay[];
+  cellSize: number;
+  onClose: () => void;
+}> = ({ replays, cellSize, onClose }) => {
+  const theme = useTheme();
+  const { colors } = theme;
+  const controlBtnStyle = getControlBtnStyle(colors);
+  const [index, setIndex] = useState(0);
+  const replay = replays[index];
+  const cursor = useMemo(() => (replay ? createReplayCursor(replay) : null), [replay]);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  // Fractional playback position, so 0.5x advances every other frame.
+  const position = useRef(0);
+  const seek = (to: number) => {
+    if (!replay) return;
+    position.current = Math.max(0, Math.min(to, replay.frames));
+    setFrame(Math.floor(position.current));
+  };
+
+  useEffect(() => {
+    seek(0);
+    setPlaying(true);
+  }, [replay]);
+
+  useEffect(() => {
+    if (!playing || !replay) return;
+    let last = Date.now();
+    const id = setInterval(() => {
+      const now = Date.now();
+      const next = position.current + ((now - last) / replay.frameMs) * speed;
+      last = now;
+      seek(next);
+      if (next >= replay.frames) setPlaying(false);
+    }, FRAME_MS);
+    return () => clearInterval(id);
+  }, [playing, speed, replay]);
+
+  const dialogRef = useRef<React.ElementRef<"div">>(null);
+  useDialogFocus(dialogRef, true, onClose);
+
+  const state = cursor ? cursor.stateAt(frame) : null;
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Replay player"
+      tabIndex={-1}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: colors.background,
+        fontFamily: theme.font,
+        color: colors.text,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 14,
+      }}
+    >
+      <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+        <span style={{ fontSize: 26, fontWeight: 800, color: colors.accent }}>REPLAY</span>
+        <select
+          value={index}
+          onChange={(e) => setIndex(Number(e.target.value))}
+          style={{ ...controlBtnStyle, color: colors.text }}
+          aria-label="Recorded game"
+        >
+          {replays.map((r, i) => (
+            <option key={`${r.date}-${i}`} value={i}>
+              {new Date(r.date).toLocaleString()} — {getMode(r.mode).name}, {r.score} pts, {r.lines} lines
+            </option>
+          ))}
+        </select>
+        <button style={controlBtnStyle} onClick={onClose}>Close</button>
+      </div>
+
+      {!replay || !state ? (
+        <div style={{ opacity: 0.7 }}>No recorded games yet.</div>
+      ) : (
+        <>
+          <div style={{ display: "flex", gap: 18, alignItems: "flex-start" }}>
+            <div style={{
+              background: theme.board.background,
+              border: `4px solid ${colors.primary}`,
+              borderRadius: 21,
+              padding: 10,
+            }}>
+              <BoardView
+                board={state.board}
+                piece={state.piece}
+                cellSize={cellSize}
+                hiddenRows={state.rules.bufferRows}
+              />
+            </div>
+            <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 8 }}>
+              <div>Score <b style={{ color: colors.accent }}>{state.score}</b></div>
+              <div>Lines <b style={{ color: colors.accent }}>{state.lines}</b></div>
+              <div>Level <b style={{ color: colors.primary }}>{state.level + 1}</b></div>
+              <div style={{ marginTop: 8 }}>HOLD</div>
+              <NextPiecePreview pieceType={state.holdType} cellSize={20} dimmed={state.holdUsed} />
+              <div style={{ marginTop: 8 }}>NEXT</div>
+              <NextPiecePreview pieceType={state.queue[0]} cellSize={20} />
+            </div>
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={replay.frames}
+            value={frame}
+            onChange={(e) => seek(Number(e.target.value))}
+            aria-label="Seek"
+            style={{ width: Math.max(cellSize * 10, 280) }}
+          />
+          <div style={{ fontSize: 14, opacity: 0.8 }}>
+            {formatTime(frame, replay.frameMs)} / {formatTime(replay.frames, replay.frameMs)}
+            {" · "}seed {replay.seed}
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <button style={controlBtnStyle} aria-label="Step back" onClick={() => { setPlaying(false); seek(frame - 1); }}>
+              ◀︎|
+            </button>
+            <button
+              style={controlBtnStyle}
+              onClick={() => {
+                if (frame >= replay.frames) seek(0);
+                setPlaying(p => !p);
+              }}
+            >
+              {playing ? "Pause" : "Play"}
+            </button>
+            <button style={controlBtnStyle} aria-label="Step forward" onClick={() => { setPlaying(false); seek(frame + 1); }}>
+              |▶︎
+            </button>
+            {SPEEDS.map((s) => (
+              <button
+                key={s}
+                style={{
+                  ...controlBtnStyle,
+                  background: s === speed ? colors.primary : controlBtnStyle.background,
+                  color: s === speed ? colors.onPrimary : colors.accent,
+                }}
+                aria-pressed={s === speed}
+                onClick={() => setSpeed(s)}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
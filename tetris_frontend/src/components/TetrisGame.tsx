@@ -1,412 +1,802 @@
 ﻿/* global setTimeout, clearTimeout */
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
-  Board,
-  GameStatus,
-  TetrominoType,
-  Position,
-} from "../tetris/types";
+  FRAME_MS,
+  GameState,
+  MAX_PREVIEW,
+  createGame,
+  getGravityMs,
+  step,
+} from "../tetris/game";
+import { PlayerAction } from "../tetris/timeline";
+import { getStepSounds } from "../tetris/sounds";
+import { describeBoard, describeStep } from "../tetris/announce";
 import {
-  createEmptyBoard,
-  getTetromino,
-  createBagRNG,
-  rotate,
-  isValidPosition,
-  mergeBoard,
-  clearRows,
-  randomSeededRNG,
-} from "../tetris/engine";
-
-// Tetris settings
-const BOARD_WIDTH = 10;
-const BOARD_HEIGHT = 20;
-
-const COLORS = {
-  background: "#182027",
-  cell: "#222933",
-  border: "#444b52",
-  primary: "#2196F3",
-  secondary: "#1E88E5",
-  accent: "#FFEB3B",
-  text: "#fff",
-  ghost: "#4c6070aa"
+  AudioSettings,
+  DEFAULT_AUDIO,
+  createAudioEngine,
+  loadAudioSettings,
+  saveAudioSettings,
+} from "../tetris/audio";
+import { ClearEvent } from "../tetris/scoring";
+import {
+  GameModeId,
+  formatDuration,
+  getEndTitle,
+  getMode,
+  getModeClock,
+  loadLastMode,
+  saveLastMode,
+} from "../tetris/modes";
+import {
+  DEFAULT_HANDLING,
+  HandlingConfig,
+  HeldControl,
+  InputSource,
+  createInputController,
+  loadHandling,
+  saveHandling,
+} from "../tetris/input";
+import {
+  BindableAction,
+  KeyBindings,
+  findActionForKey,
+  formatKey,
+  loadKeyBindings,
+  saveKeyBindings,
+} from "../tetris/bindings";
+import {
+  GamepadBindings,
+  createGamepadPoller,
+  isGamepadSupported,
+  loadGamepadBindings,
+  saveGamepadBindings,
+} from "../tetris/gamepad";
+import {
+  DEFAULT_GESTURES,
+  GestureConfig,
+  createGestureRecognizer,
+  loadGestureConfig,
+  saveGestureConfig,
+} from "../tetris/gestures";
+import {
+  BotSettings,
+  DEFAULT_BOT_SETTINGS,
+  createBotPlayer,
+  loadBotSettings,
+  saveBotSettings,
+} from "../tetris/bot";
+import {
+  HighScoreEntry,
+  createEntry,
+  getModeTable,
+  loadHighScores,
+  loadPlayerName,
+  qualifies,
+  saveHighScore,
+  savePlayerName,
+} from "../tetris/highscores";
+import {
+  BoardPresetId,
+  GameRules,
+  getPresetRules,
+  loadBoardPreset,
+  loadRandomizerChoice,
+  saveBoardPreset,
+  saveRandomizerChoice,
+} from "../tetris/rules";
+import { RandomizerId } from "../tetris/randomizer";
+import { getDailySeed, parseSeed, randomSeed } from "../tetris/seeds";
+import { SavedGame, clearSavedGame, loadSavedGame, saveGame } from "../tetris/savegame";
+import {
+  Replay,
+  createReplayRecorder,
+  loadReplays,
+  saveReplay,
+} from "../tetris/replay";
+import { BoardView } from "./BoardView";
+import { NextPiecePreview } from "./NextPiecePreview";
+import { BoardCanvas, PiecePreviewCanvas, supportsCanvas } from "./BoardCanvas";
+import { ReplayPlayer } from "./ReplayPlayer";
+import { ControlsSettings } from "./ControlsSettings";
+import { ClearPopup } from "./ClearPopup";
+import { EffectsLayer } from "./EffectsLayer";
+import { useDialogFocus } from "./useDialogFocus";
+import {
+  DEFAULT_EFFECTS,
+  EffectsSettings,
+  loadEffectsSettings,
+  saveEffectsSettings,
+} from "./effects";
+import { ModeSelect } from "./ModeSelect";
+import { GameResults } from "./GameResults";
+import { HighScoreTable, InitialsPrompt } from "./HighScoreTable";
+import {
+  THEMES,
+  THEME_IDS,
+  Theme,
+  ThemeContext,
+  ThemeId,
+  loadThemeId,
+  saveThemeId,
+} from "./themes";
+
+const getSidePanelStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  background: colors.panel,
+  borderRadius: 13,
+  padding: "12px 11px",
+  boxShadow: "0 4px 16px #110f2245",
+  border: `2px solid ${colors.secondary}`,
+  display: "flex",
+  flexDirection: "column",
+  alignItems: "center",
+  minWidth: "86px",
+});
+
+const getPreviewStepperStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  background: "transparent",
+  border: `1px solid ${colors.secondary}`,
+  borderRadius: 6,
+  color: colors.text,
+  cursor: "pointer",
+  fontSize: 13,
+  lineHeight: 1,
+  padding: "1px 5px",
+});
+
+const getOverlayButtonStyle = (colors: Theme["colors"]): React.CSSProperties => ({
+  fontSize: 22,
+  borderRadius: 12,
+  border: "none",
+  padding: "8px 17px",
+  fontWeight: 700,
+  background: colors.primary,
+  color: colors.onPrimary,
+  cursor: "pointer",
+  transition: "background 0.13s",
+  boxShadow: "0 2px 14px #132",
+  letterSpacing: 0.4,
+});
+
+// Full-screen panels that pause the game while open.
+type Overlay = "replays" | "controls" | "modes";
+
+const FOOTER_LINK_STYLE: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "inherit",
+  font: "inherit",
+  textDecoration: "underline",
+  cursor: "pointer",
+  padding: 0,
 };
-const FONT_FAMILY = '"SF Pro Text", "Segoe UI", Helvetica, Arial, sans-serif';
 
-// How fast pieces fall (milliseconds) per level
-const LEVEL_SPEEDS = [
-  800, 700, 600, 500, 400, 350, 300, 260, 220, 180,
-  150, 120, 100, 90, 80, 70, 60, 55, 50, 40,
-];
+// Bindable actions handled by the input controller while held
+const HELD_CONTROLS: Partial<Record<BindableAction, HeldControl>> = {
+  moveLeft: "left",
+  moveRight: "right",
+  softDrop: "softDrop",
+};
 
-const START_LEVEL = 0;
+// One-shot bindable actions and what they dispatch
+const PLAYER_ACTIONS: Record<Exclude<BindableAction, "restart" | "describeBoard">, PlayerAction> = {
+  moveLeft: { type: "moveLeft" },
+  moveRight: { type: "moveRight" },
+  softDrop: { type: "softDrop" },
+  hardDrop: { type: "hardDrop" },
+  rotateCW: { type: "rotate", direction: "cw" },
+  rotateCCW: { type: "rotate", direction: "ccw" },
+  rotate180: { type: "rotate", direction: "180" },
+  hold: { type: "hold" },
+  pause: { type: "pause" },
+};
 
-interface PieceState {
-  type: TetrominoType;
-  shape: number[][];
-  pos: Position;
-  color: string;
-}
+// Cap on simulated catch-up after the tab was throttled or hidden.
+const MAX_FRAME_BACKLOG_MS = 250;
 
-function getDropY(board: Board, shape: number[][], pos: Position): number {
-  let dropY = pos.y;
-  while (isValidPosition(board, shape, { x: pos.x, y: dropY + 1 })) {
-    dropY++;
-  }
-  return dropY;
+// The daily challenge always uses the day's seed; other modes the one the
+// player entered, if any (`custom`), or a random one.
+function getGameSeed(modeId: GameModeId, seedText: string): { seed: number; custom: boolean } {
+  if (getMode(modeId).daily) return { seed: getDailySeed(), custom: false };
+  const typed = parseSeed(seedText);
+  return typed === null ? { seed: randomSeed(), custom: false } : { seed: typed, custom: true };
 }
 
-function getLevelByLines(linesCleared: number): number {
-  return Math.min(Math.floor(linesCleared / 10), LEVEL_SPEEDS.length - 1);
-}
+const DEFAULT_PREVIEW_COUNT = 5;
 
-function getScoreForClearedRows(rows: number, level: number): number {
-  // Classic NES scoring
-  const points = [0, 40, 100, 300, 1200];
-  return (points[rows] ?? 0) * (level + 1);
+function clampPreviewCount(n: number): number {
+  return Math.max(1, Math.min(MAX_PREVIEW, Math.round(n)));
 }
 
 /**
  * PUBLIC_INTERFACE
- * TetrisGame UI - connects all gameplay, handles controls, scoring, and visuals.
+ * TetrisGame UI - renders the game state and dispatches player input to the
+ * headless reducer in tetris/game.
+ * previewCount: how many upcoming pieces to show (1-6); adjustable in-game.
+ * handling: DAS/ARR/soft drop factor used until the player saves their own.
+ * rules: overrides for the board preset chosen in the menu (size, spawn,
+ * lock delay).
+ * renderer: draw the board and previews on a canvas (default), or as DOM
+ * elements. Canvas falls back to DOM where it is unavailable.
  */
-export const TetrisGame: React.FC = () => {
-  // State
-  const [board, setBoard] = useState<Board>(() =>
-    createEmptyBoard(BOARD_HEIGHT, BOARD_WIDTH)
+export const TetrisGame: React.FC<{
+  previewCount?: number;
+  handling?: Partial<HandlingConfig>;
+  rules?: Partial<GameRules>;
+  renderer?: "canvas" | "dom";
+}> = ({
+  previewCount: initialPreviewCount = DEFAULT_PREVIEW_COUNT,
+  handling,
+  rules,
+  renderer = "canvas",
+}) => {
+  const [canvasRendering] = useState(() => renderer === "canvas" && supportsCanvas());
+  const Playfield = canvasRendering ? BoardCanvas : BoardView;
+  const PiecePreview = canvasRendering ? PiecePreviewCanvas : NextPiecePreview;
+  const [themeId, setThemeId] = useState<ThemeId>(() => loadThemeId() ?? "classic");
+  const changeTheme = useCallback((next: ThemeId) => {
+    setThemeId(next);
+    saveThemeId(next);
+  }, []);
+  const theme = THEMES[themeId];
+  const { colors } = theme;
+  const sidePanelStyle = getSidePanelStyle(colors);
+  const previewStepperStyle = getPreviewStepperStyle(colors);
+  const overlayButtonStyle = getOverlayButtonStyle(colors);
+
+  // Rules for new games: the chosen board preset and randomizer plus the
+  // `rules` prop.
+  const [boardPreset, setBoardPreset] = useState<BoardPresetId>(
+    () => loadBoardPreset() ?? "standard"
   );
-  const [piece, setPiece] = useState<PieceState | null>(null);
-  const [nextPieceType, setNextPieceType] = useState<TetrominoType | null>(
-    null
+  const changeBoardPreset = useCallback((next: BoardPresetId) => {
+    setBoardPreset(next);
+    saveBoardPreset(next);
+  }, []);
+  const [randomizerChoice, setRandomizerChoice] = useState<RandomizerId | null>(
+    () => loadRandomizerChoice()
   );
-  const [score, setScore] = useState(0);
-  const [lines, setLines] = useState(0);
-  const [level, setLevel] = useState(START_LEVEL);
-  const [status, setStatus] = useState<GameStatus>("running");
+  const changeRandomizer = useCallback((next: RandomizerId | null) => {
+    setRandomizerChoice(next);
+    saveRandomizerChoice(next);
+  }, []);
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  // Daily challenges are played on standard rules so results compare.
+  const getNewRules = useCallback((modeId: GameModeId): GameRules => (
+    getMode(modeId).daily
+      ? getPresetRules("standard", { ...rulesRef.current, randomizer: null })
+      : getPresetRules(boardPreset, { randomizer: randomizerChoice, ...rulesRef.current })
+  ), [boardPreset, randomizerChoice]);
+  // Seed typed in the menu; blank means a random one.
+  const [seedText, setSeedText] = useState("");
+
+  // The reducer runs from the frame loop, so the live state is kept in a ref
+  // and only copied into React state when something visible changed. The
+  // first game waits, paused, behind the mode menu.
+  const [initialGame] = useState(() => {
+    const modeId = loadLastMode() ?? "marathon";
+    return step(createGame(getGameSeed(modeId, "").seed, modeId, getNewRules(modeId)), { type: "pause" });
+  });
+  const stateRef = useRef<GameState>(initialGame);
+  const [game, setGame] = useState<GameState>(initialGame);
   const [flashGameOver, setFlashGameOver] = useState(false);
+  const [previewCount, setPreviewCount] = useState(() =>
+    clampPreviewCount(initialPreviewCount)
+  );
+
+  // Session recording: frames simulated so far and the inputs applied to them.
+  const frameRef = useRef(0);
+  const recorderRef = useRef(createReplayRecorder(initialGame));
+  const [replays, setReplays] = useState<Replay[]>(() => loadReplays());
+  // Full-screen panel shown over the game, if any (the game is paused).
+  const [overlay, setOverlay] = useState<Overlay | null>("modes");
+  const overlayRef = useRef(overlay);
+  overlayRef.current = overlay;
 
-  // Bag RNG - stable per session
-  const rngRef = useRef<() => number>();
-  const bagRef = useRef<() => TetrominoType>();
+  // Player-configurable controls, saved between sessions
+  const [bindings, setBindings] = useState<KeyBindings>(() => loadKeyBindings());
+  const [handlingConfig, setHandlingConfig] = useState<HandlingConfig>(
+    () => loadHandling() ?? { ...DEFAULT_HANDLING, ...handling }
+  );
+  const changeBindings = useCallback((next: KeyBindings) => {
+    setBindings(next);
+    saveKeyBindings(next);
+  }, []);
+  const changeHandling = useCallback((next: HandlingConfig) => {
+    setHandlingConfig(next);
+    saveHandling(next);
+  }, []);
+
+  const {
+    board,
+    piece,
+    queue,
+    holdType,
+    holdUsed,
+    score,
+    lines,
+    level,
+    status,
+    elapsedMs,
+  } = game;
+  const mode = getMode(game.mode);
 
   // Track input (for holding pause state, etc)
   const isPaused = status === "paused";
   const isGameOver = status === "gameover";
 
-  // Timing (falling)
-  const fallTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Pop-up for the latest scoring lock; a new one replaces the previous.
+  const [popup, setPopup] = useState<{ id: number; event: ClearEvent } | null>(null);
+  const { lastClear } = game;
+  useEffect(() => {
+    if (lastClear) setPopup((prev) => ({ id: (prev ? prev.id : 0) + 1, event: lastClear }));
+  }, [lastClear]);
 
-  // Start function
-  const initGame = useCallback(() => {
-    if (!rngRef.current) {
-      rngRef.current = randomSeededRNG(Date.now() % 654321);
-    }
-    bagRef.current = createBagRNG(rngRef.current!);
-
-    const first = bagRef.current!();
-    const second = bagRef.current!();
-
-    setBoard(createEmptyBoard(BOARD_HEIGHT, BOARD_WIDTH));
-    setLines(0);
-    setScore(0);
-    setLevel(START_LEVEL);
-    setStatus("running");
-    setNextPieceType(second);
-
-    const { shape, color } = getTetromino(first);
-    setPiece({
-      type: first,
-      shape: shape.map(row => [...row]),
-      pos: { x: Math.floor((BOARD_WIDTH - shape[0].length) / 2), y: 0 },
-      color,
-    });
+  const [effects, setEffects] = useState<EffectsSettings>(
+    () => loadEffectsSettings() ?? DEFAULT_EFFECTS
+  );
+  const changeEffects = useCallback((next: EffectsSettings) => {
+    setEffects(next);
+    saveEffectsSettings(next);
   }, []);
 
-  // Pass to effect for restart
+  // Screen reader announcements, spoken through the live region at the end.
+  const [announcement, setAnnouncement] = useState<{ id: number; text: string } | null>(null);
+  const announce = useCallback((text: string) => {
+    setAnnouncement((prev) => ({ id: (prev ? prev.id : 0) + 1, text }));
+  }, []);
+
+  // Sound: effects are played from `commit`, music runs while the game does.
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(
+    () => loadAudioSettings() ?? DEFAULT_AUDIO
+  );
+  const changeAudio = useCallback((next: AudioSettings) => {
+    setAudioSettings(next);
+    saveAudioSettings(next);
+  }, []);
+  const [audio] = useState(() => createAudioEngine(audioSettings));
+  useEffect(() => {
+    audio.setVolumes(audioSettings);
+  }, [audio, audioSettings]);
   useEffect(() => {
-    initGame();
-    // Do not add dependencies (initGame intentionally has stable rngRef)
+    audio.setMusic(status === "running" ? level : null);
+  }, [audio, status, level]);
+  useEffect(() => () => audio.dispose(), [audio]);
+
+  // Stores the session so far; the final state is visible one frame later.
+  const finishRecording = useCallback(() => {
+    const replay = recorderRef.current.finish(frameRef.current + 1, stateRef.current);
+    if (replay.events.length > 0) setReplays(saveReplay(replay));
   }, []);
 
-  // Apply next piece
-  const spawnPiece = useCallback(() => {
-    if (!bagRef.current) return;
-    const type = nextPieceType ?? bagRef.current();
-    const nextType = bagRef.current();
-    const { shape, color } = getTetromino(type);
-    setPiece({
-      type,
-      shape: shape.map(row => [...row]),
-      pos: { x: Math.floor((BOARD_WIDTH - shape[0].length) / 2), y: 0 },
-      color,
-    });
-    setNextPieceType(nextType);
-  }, [nextPieceType]);
-
-  // Falling handler
-  const fall = useCallback(() => {
-    if (!piece || isPaused || isGameOver) return;
-    const nextPos = { x: piece.pos.x, y: piece.pos.y + 1 };
-    if (isValidPosition(board, piece.shape, nextPos)) {
-      setPiece({ ...piece, pos: nextPos });
-    } else {
-      // Lock piece + clear rows
-      const merged = mergeBoard(board, piece.shape, piece.pos, piece.color);
-      const { board: cleared, cleared: rowsCleared } = clearRows(merged);
-      setBoard(cleared);
-      // Score and lines
-      if (rowsCleared) {
-        setScore(s => s + getScoreForClearedRows(rowsCleared, level));
-        setLines(l => l + rowsCleared);
-      }
-      // New level?
-      setLevel(getLevelByLines(lines + rowsCleared));
-      // Spawn next
-      setTimeout(() => {
-        spawnPiece();
-      }, 10);
-      // Game over? Piece was at top and can't be placed...
-      if (piece.pos.y === 0) {
-        setStatus("gameover");
-        setFlashGameOver(true);
-        setTimeout(() => setFlashGameOver(false), 400);
-      }
+  // Leaderboards: a finished game that makes its mode's table asks for
+  // initials before it is stored.
+  const [highScores, setHighScores] = useState<HighScoreEntry[]>(() => loadHighScores());
+  const [pendingEntry, setPendingEntry] = useState<HighScoreEntry | null>(null);
+  const [newEntry, setNewEntry] = useState<HighScoreEntry | null>(null);
+  const submitHighScore = useCallback((name: string) => {
+    if (!pendingEntry) return;
+    const entry = { ...pendingEntry, name };
+    savePlayerName(name);
+    setHighScores(saveHighScore(entry));
+    setNewEntry(entry);
+    setPendingEntry(null);
+  }, [pendingEntry]);
+
+  // Save/resume: the game is stored whenever it pauses (which includes the
+  // tab being hidden), and offered from the mode menu on the next visit.
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(() => loadSavedGame());
+  const autosave = useCallback(() => {
+    const events = recorderRef.current.events();
+    // A game nobody has played yet must not replace the one on offer.
+    if (events.length === 0) return;
+    saveGame(stateRef.current, frameRef.current, events);
+    setSavedGame(null);
+  }, []);
+
+  const commit = useCallback((next: GameState) => {
+    const prev = stateRef.current;
+    stateRef.current = next;
+    for (const sound of getStepSounds(prev, next)) audio.play(sound);
+    const message = describeStep(prev, next);
+    if (message) announce(message);
+    if (prev.status !== "paused" && next.status === "paused") autosave();
+    if (prev.status !== "gameover" && next.status === "gameover") {
+      clearSavedGame();
+      finishRecording();
+      const entry = createEntry(next, loadPlayerName() || "???");
+      if (entry && qualifies(loadHighScores(), entry)) setPendingEntry(entry);
     }
-  }, [
-    piece,
-    board,
-    isPaused,
-    isGameOver,
-    lines,
-    level,
-    spawnPiece,
-  ]);
+    if (
+      next.board !== prev.board ||
+      next.piece !== prev.piece ||
+      next.holdType !== prev.holdType ||
+      next.status !== prev.status ||
+      // The clock is shown to a tenth of a second.
+      Math.floor(next.elapsedMs / 100) !== Math.floor(prev.elapsedMs / 100)
+    ) {
+      setGame(next);
+    }
+  }, [finishRecording, autosave, audio, announce]);
 
-  // Falling timer
+  // Returns whether the action changed the game (held inputs stop at walls).
+  const dispatch = useCallback(
+    (action: PlayerAction) => {
+      const prev = stateRef.current;
+      const next = step(prev, action);
+      if (next === prev) return false;
+      recorderRef.current.record({ frame: frameRef.current, action });
+      commit(next);
+      return true;
+    },
+    [commit]
+  );
+
+  // DAS/ARR for held directions and soft drop, shared by keyboard and buttons.
+  const [input] = useState(() =>
+    createInputController(
+      handlingConfig,
+      dispatch,
+      () => getGravityMs(stateRef.current.level)
+    )
+  );
   useEffect(() => {
-    if (isPaused || isGameOver || !piece) {
-      if (fallTimer.current) {
-        clearTimeout(fallTimer.current);
-        fallTimer.current = null;
-      }
+    input.setConfig(handlingConfig);
+  }, [input, handlingConfig]);
+
+  // Autoplay: the bot feeds actions through `dispatch` like any other input,
+  // so its games are recorded and replayable.
+  const [bot] = useState(() => createBotPlayer());
+  const [autoplay, setAutoplay] = useState(false);
+  const autoplayRef = useRef(autoplay);
+  autoplayRef.current = autoplay;
+  const [botSettings, setBotSettings] = useState<BotSettings>(
+    () => loadBotSettings() ?? DEFAULT_BOT_SETTINGS
+  );
+  const botSettingsRef = useRef(botSettings);
+  botSettingsRef.current = botSettings;
+  const changeBotSettings = useCallback((next: BotSettings) => {
+    setBotSettings(next);
+    saveBotSettings(next);
+  }, []);
+  const toggleAutoplay = useCallback(() => {
+    bot.reset();
+    setAutoplay((on) => !on);
+  }, [bot]);
+
+  // Start function
+  const startGame = useCallback((modeId: GameModeId, gameRules: GameRules, seedText: string) => {
+    // Keep abandoned games reviewable too
+    if (stateRef.current.status !== "gameover") finishRecording();
+    const { seed, custom } = getGameSeed(modeId, seedText);
+    const fresh = createGame(seed, modeId, gameRules, custom);
+    clearSavedGame();
+    setSavedGame(null);
+    stateRef.current = fresh;
+    frameRef.current = 0;
+    recorderRef.current = createReplayRecorder(fresh);
+    bot.reset();
+    setPendingEntry(null);
+    setNewEntry(null);
+    setGame(fresh);
+    announce(`New ${getMode(modeId).name} game. ${describeBoard(fresh)}`);
+  }, [finishRecording, bot, announce]);
+  // Restart keeps the current mode and board; the seed is a new one unless
+  // the player entered one.
+  const initGame = useCallback(() => {
+    const { mode: modeId, rules: gameRules } = stateRef.current;
+    startGame(modeId, gameRules, seedText);
+  }, [startGame, seedText]);
+  const selectMode = useCallback((modeId: GameModeId) => {
+    saveLastMode(modeId);
+    setOverlay(null);
+    startGame(modeId, getNewRules(modeId), seedText);
+  }, [startGame, getNewRules, seedText]);
+
+  const resumeSavedGame = useCallback(() => {
+    if (!savedGame) return;
+    if (stateRef.current.status !== "gameover") finishRecording();
+    const { state, frames, events } = savedGame;
+    stateRef.current = state;
+    frameRef.current = frames;
+    recorderRef.current = createReplayRecorder(state, events);
+    bot.reset();
+    setPendingEntry(null);
+    setNewEntry(null);
+    setSavedGame(null);
+    setOverlay(null);
+    setGame(state);
+    // Come back paused, so the player resumes when ready.
+    if (state.status === "running") dispatch({ type: "pause" });
+  }, [savedGame, finishRecording, bot, dispatch]);
+
+  const openOverlay = useCallback((panel: Overlay) => {
+    if (stateRef.current.status === "running") dispatch({ type: "pause" });
+    setOverlay(panel);
+  }, [dispatch]);
+  const openReplays = useCallback(() => openOverlay("replays"), [openOverlay]);
+
+  // Bound actions from any device. Kept in a ref so the frame loop (gamepad
+  // polling) always sees the current game status.
+  const handleActionDown = (action: BindableAction, source: InputSource) => {
+    if (overlay) return;
+    if (action === "describeBoard") {
+      announce(describeBoard(stateRef.current));
+      return;
+    }
+    if (isGameOver) {
+      if (action === "restart" || action === "hardDrop") initGame();
       return;
     }
-    const speed = LEVEL_SPEEDS[level] ?? 40;
-    fallTimer.current = setTimeout(() => fall(), speed);
+    if (isPaused) {
+      if (action === "pause" || action === "hardDrop") dispatch({ type: "resume" });
+      return;
+    }
+    // The player took over: the bot plans afresh from wherever the piece is.
+    if (autoplay) bot.reset();
+    // Drags already step once per cell, so gestures skip DAS/ARR.
+    const held = HELD_CONTROLS[action];
+    if (held && source !== "gesture") input.press(held, source);
+    else if (action === "restart") initGame();
+    else dispatch(PLAYER_ACTIONS[action]);
+  };
+  const handleActionUp = (action: BindableAction, source: InputSource) => {
+    const held = HELD_CONTROLS[action];
+    if (held) input.release(held, source);
+  };
+  const actionHandlers = useRef({ down: handleActionDown, up: handleActionUp });
+  actionHandlers.current = { down: handleActionDown, up: handleActionUp };
+
+  // Gamepads: polled from the frame loop, edges become bound actions
+  const [gamepadBindings, setGamepadBindings] = useState<GamepadBindings>(() =>
+    loadGamepadBindings()
+  );
+  const gamepadBindingsRef = useRef(gamepadBindings);
+  gamepadBindingsRef.current = gamepadBindings;
+  const changeGamepadBindings = useCallback((next: GamepadBindings) => {
+    setGamepadBindings(next);
+    saveGamepadBindings(next);
+  }, []);
+  const [gamepadPoller] = useState(() =>
+    createGamepadPoller({
+      onPress: (action) => actionHandlers.current.down(action, "gamepad"),
+      onRelease: (action) => actionHandlers.current.up(action, "gamepad"),
+    })
+  );
+  const [gamepadNotice, setGamepadNotice] = useState<string | null>(null);
+  const [gamepadConnected, setGamepadConnected] = useState(false);
+
+  useEffect(() => {
+    if (!isGamepadSupported()) return;
+    let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+    const notify = (message: string) => {
+      setGamepadNotice(message);
+      clearTimeout(noticeTimer);
+      noticeTimer = setTimeout(() => setGamepadNotice(null), 3000);
+    };
+    const onConnected = (e: { gamepad: { id: string } }) => {
+      setGamepadConnected(true);
+      notify(`Controller connected: ${e.gamepad.id}`);
+    };
+    const onDisconnected = () => {
+      setGamepadConnected(window.navigator.getGamepads().some((pad) => !!pad));
+      input.releaseAll();
+      notify("Controller disconnected");
+    };
+    window.addEventListener("gamepadconnected", onConnected);
+    window.addEventListener("gamepaddisconnected", onDisconnected);
     return () => {
-      if (fallTimer.current) {
-        clearTimeout(fallTimer.current);
-        fallTimer.current = null;
-      }
+      window.removeEventListener("gamepadconnected", onConnected);
+      window.removeEventListener("gamepaddisconnected", onDisconnected);
+      clearTimeout(noticeTimer);
     };
-  }, [piece, isPaused, isGameOver, fall, level]);
+  }, [input]);
 
-  // Keyboard events
+  // Fixed-step frame loop: gravity advances in whole FRAME_MS steps.
   useEffect(() => {
-    if (isGameOver) return;
-    const onKeyDown = (e: globalThis.KeyboardEvent) => {
-      if (isPaused) {
-        if (e.key === " " || e.code === "Space") setStatus("running");
-        return;
-      }
-      if (!piece) return;
-      let handled = false;
-
-      let nextShape = piece.shape.map(row => [...row]);
-      let nextPos = { ...piece.pos };
-
-      switch (e.key) {
-        case "ArrowLeft":
-        case "a":
-        case "A":
-          nextPos.x--;
-          handled = true;
-          break;
-        case "ArrowRight":
-        case "d":
-        case "D":
-          nextPos.x++;
-          handled = true;
-          break;
-        case "ArrowDown":
-        case "s":
-        case "S":
-          nextPos.y++;
-          handled = true;
-          break;
-        case "ArrowUp":
-        case "w":
-        case "W":
-        case "x":
-        case "X":
-          nextShape = rotate(piece.shape);
-          handled = true;
-          break;
-        case " ":
-        case "Spacebar":
-          // Hard drop
-          nextPos.y = getDropY(board, nextShape, piece.pos);
-          handled = true;
-          break;
-        case "p":
-        case "P":
-          setStatus("paused");
-          handled = true;
-          break;
-        case "r":
-        case "R":
-          initGame();
-          handled = true;
-          return;
-        default:
-          break;
+    let last = Date.now();
+    let backlog = 0;
+    let botElapsed = 0;
+    const id = setInterval(() => {
+      const now = Date.now();
+      backlog = Math.min(backlog + now - last, MAX_FRAME_BACKLOG_MS);
+      last = now;
+      while (backlog >= FRAME_MS) {
+        backlog -= FRAME_MS;
+        // Held inputs act first, like any other input for this frame.
+        gamepadPoller.poll(gamepadBindingsRef.current);
+        input.update(FRAME_MS);
+        // Only live play advances the recording: paused time and open
+        // panels add no frames, so inputs stay stamped with play time.
+        if (stateRef.current.status !== "running" || overlayRef.current !== null) {
+          botElapsed = 0;
+          continue;
+        }
+        if (autoplayRef.current) {
+          botElapsed += FRAME_MS;
+          const interval = 1000 / botSettingsRef.current.actionsPerSecond;
+          while (botElapsed >= interval) {
+            botElapsed -= interval;
+            const action = bot.nextAction(stateRef.current);
+            if (!action) break;
+            // Gravity can spoil a plan (e.g. a shift now blocked); replan.
+            if (!dispatch(action)) bot.reset();
+          }
+        } else {
+          botElapsed = 0;
+        }
+        commit(step(stateRef.current, { type: "tick", ms: FRAME_MS }));
+        frameRef.current++;
       }
-      if (handled) e.preventDefault();
+    }, FRAME_MS);
+    return () => clearInterval(id);
+  }, [commit, dispatch, input, gamepadPoller, bot]);
 
-      if (e.key === " " || e.code === "Space") {
-        // Hard drop
-        setPiece({ ...piece, pos: nextPos });
-        setTimeout(() => fall(), 20);
-        return;
-      }
-      if (isValidPosition(board, nextShape, nextPos)) {
-        setPiece({ ...piece, shape: nextShape, pos: nextPos });
-      }
+  // Leaving the tab pauses the game, which saves it; a paused game is
+  // saved again in case it was never stored (e.g. it was resumed paused).
+  useEffect(() => {
+    const doc = window.document;
+    const onVisibilityChange = () => {
+      if (doc.visibilityState !== "hidden") return;
+      input.releaseAll();
+      if (stateRef.current.status === "running") dispatch({ type: "pause" });
+      else if (stateRef.current.status === "paused") autosave();
     };
-    window.addEventListener("keydown", onKeyDown);
-    return () => window.removeEventListener("keydown", onKeyDown);
-  }, [piece, board, isPaused, isGameOver, fall, initGame]);
+    doc.addEventListener("visibilitychange", onVisibilityChange);
+    return () => doc.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [dispatch, autosave, input]);
 
-  // Handle restart after game over
+  // Blink the overlay when the game ends
   useEffect(() => {
     if (!isGameOver) return;
-    const handler = (e: globalThis.KeyboardEvent) => {
-      if (e.key === "r" || e.key === "R" || e.code === "Space" || e.key === " ") {
-        e.preventDefault();
-        initGame();
-      }
+    setFlashGameOver(true);
+    const t = setTimeout(() => setFlashGameOver(false), 400);
+    return () => clearTimeout(t);
+  }, [isGameOver]);
+
+  // Keyboard events, through the remappable bindings
+  useEffect(() => {
+    if (overlay) return;
+    // Typing (e.g. initials) is not game input, and Space/Enter on a focused
+    // dialog control (the game over buttons) activates it.
+    const isTyping = (e: globalThis.KeyboardEvent) => {
+      const target = e.target as { tagName?: string; closest?: (selector: string) => unknown } | null;
+      if (target?.tagName === "INPUT") return true;
+      return (e.key === " " || e.key === "Enter") && !!target?.closest?.('[role="dialog"]');
+    };
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (isTyping(e)) return;
+      const action = findActionForKey(bindings, e.key);
+      if (!action) return;
+      e.preventDefault();
+      // Repeats come from the input controller, not the OS key repeat.
+      if (!e.repeat) actionHandlers.current.down(action, "keyboard");
+    };
+    const onKeyUp = (e: globalThis.KeyboardEvent) => {
+      const action = findActionForKey(bindings, e.key);
+      if (action) actionHandlers.current.up(action, "keyboard");
     };
-    window.addEventListener("keydown", handler);
-    return () => window.removeEventListener("keydown", handler);
-  }, [isGameOver, initGame]);
+    const onBlur = () => input.releaseAll();
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+      input.releaseAll();
+    };
+  }, [bindings, overlay, input]);
 
   // Responsive sizing
   const gameBoardRef = useRef<any>(null);
+  // The game over panel is a dialog over the board (none while an overlay is up).
+  const gameOverRef = useRef<React.ElementRef<"div">>(null);
+  useDialogFocus(gameOverRef, isGameOver && overlay === null);
   const [dimensions, setDimensions] = useState({ cell: 32, boardW: 320, boardH: 640 });
+  const cols = game.rules.boardWidth;
+  const rows = game.rules.boardHeight;
 
   useEffect(() => {
     const handleResize = () => {
-      let maxW = Math.min(window.innerWidth - 48, 440);
-      let maxH = Math.min(window.innerHeight - 128, 700);
-      let cell = Math.floor(Math.min(maxW / BOARD_WIDTH, maxH / BOARD_HEIGHT));
-      cell = Math.max(cell, 18);
+      // Cells are at most 44x35px-ish, as on the standard 440x700 board.
+      let maxW = Math.min(window.innerWidth - 48, 44 * cols);
+      let maxH = Math.min(window.innerHeight - 128, 35 * rows);
+      let cell = Math.floor(Math.min(maxW / cols, maxH / rows));
+      cell = Math.max(cell, 10);
       setDimensions({
         cell,
-        boardW: cell * BOARD_WIDTH,
-        boardH: cell * BOARD_HEIGHT,
+        boardW: cell * cols,
+        boardH: cell * rows,
       });
     };
     handleResize();
     window.addEventListener("resize", handleResize);
     return () => window.removeEventListener("resize", handleResize);
-  }, []);
-
-  // Board rendering helpers
-  const drawCell = (
-    { filled, color }: { filled: boolean; color: string },
-    x: number,
-    y: number,
-    cell: number,
-    ghost = false
-  ) => {
-    // Modern touch-optimized block: No debug outlines, only soft shadow and border for filled cells
-    const style: React.CSSProperties = {
-      width: dimensions.cell - 3.5,
-      height: dimensions.cell - 3.5,
-      background:
-        ghost
-          ? COLORS.ghost
-          : filled
-            ? color
-            : COLORS.cell,
-      border: filled ? `1.3px solid #191f33cc` : "none",
-      borderRadius: 8.5,
-      margin: 1.2,
-      boxSizing: "border-box",
-      boxShadow: filled && !ghost ? "0 2.3px 13px #0013, 0 1.1px 7px #181c232e" : undefined,
-      opacity: ghost ? 0.42 : 1,
-      transition: "background 0.11s, border 0.12s",
-    };
-    return (
-      <div
-        className="tetris-cell"
-        key={`cell-${x}-${y}-${cell}${ghost ? "-g" : ""}`}
-        style={style}
-      />
-    );
-  };
+  }, [cols, rows]);
 
-  const renderBoard = (): React.ReactNode[] => {
-    // Merge active piece
-    const drawn: { filled: boolean; color: string }[][] = board.map(row =>
-      row.map(cell => ({ ...cell }))
+  // A Tetris shakes the board; the other lock effects are in EffectsLayer.
+  const { lastLock } = game;
+  useEffect(() => {
+    const element = gameBoardRef.current;
+    if (!effects.shake || !lastLock || lastLock.clearedRows.length < 4) return;
+    if (!element || typeof element.animate !== "function") return;
+    element.animate(
+      [
+        { transform: "translate(0, 0)" },
+        { transform: "translate(-6px, 4px)" },
+        { transform: "translate(5px, -3px)" },
+        { transform: "translate(-3px, 2px)" },
+        { transform: "translate(2px, -1px)" },
+        { transform: "translate(0, 0)" },
+      ],
+      { duration: 320, easing: "ease-out" }
     );
-    // Ghost
-    let ghostY: number | null = null;
-    if (piece) {
-      ghostY = getDropY(board, piece.shape, piece.pos);
-      // Draw ghost
-      piece.shape.forEach((row, dy) => {
-        row.forEach((cell, dx) => {
-          if (!cell) return;
-          const x = piece.pos.x + dx;
-          const y = ghostY! + dy;
-          if (
-            x >= 0 &&
-            x < BOARD_WIDTH &&
-            y >= 0 &&
-            y < BOARD_HEIGHT &&
-            !drawn[y][x].filled
-          ) {
-            drawn[y][x] = { filled: true, color: COLORS.ghost };
-          }
-        });
-      });
+  }, [lastLock, effects.shake]);
 
-      // Draw piece
-      piece.shape.forEach((row, dy) => {
-        row.forEach((cell, dx) => {
-          if (!cell) return;
-          const x = piece.pos.x + dx;
-          const y = piece.pos.y + dy;
-          if (
-            x >= 0 &&
-            x < BOARD_WIDTH &&
-            y >= 0 &&
-            y < BOARD_HEIGHT
-          ) {
-            drawn[y][x] = { filled: true, color: piece.color };
-          }
-        });
-      });
-    }
+  // Touch gestures on the board, handled like bound actions but as
+  // discrete moves that bypass DAS/ARR
+  const [gestures, setGestures] = useState<GestureConfig>(
+    () => loadGestureConfig() ?? DEFAULT_GESTURES
+  );
+  const changeGestures = useCallback((next: GestureConfig) => {
+    setGestures(next);
+    saveGestureConfig(next);
+  }, []);
+  const [gestureRecognizer] = useState(() =>
+    createGestureRecognizer(gestures, dimensions.cell, {
+      onMove: (direction) => actionHandlers.current.down(direction < 0 ? "moveLeft" : "moveRight", "gesture"),
+      onSoftDrop: () => actionHandlers.current.down("softDrop", "gesture"),
+      onHardDrop: () => actionHandlers.current.down("hardDrop", "gesture"),
+      // A tap on the paused board resumes, like the pause button.
+      onTap: (fingers) => {
+        const action = stateRef.current.status === "paused" ? "pause" : fingers > 1 ? "rotateCCW" : "rotateCW";
+        actionHandlers.current.down(action, "gesture");
+      },
+    })
+  );
+  useEffect(() => {
+    gestureRecognizer.setConfig(gestures);
+  }, [gestureRecognizer, gestures]);
+  useEffect(() => {
+    gestureRecognizer.setCellSize(dimensions.cell);
+  }, [gestureRecognizer, dimensions.cell]);
 
-    return drawn.map((row, y) => (
-      <div
-        style={{ display: "flex" }}
-        key={`row-${y}`}
-      >
-        {row.map((cell, x) =>
-          drawCell(cell, x, y, y * BOARD_WIDTH + x, cell.color === COLORS.ghost)
-        )}
-      </div>
-    ));
+  const boardGestureHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      // Leave the game over buttons their clicks.
+      if (stateRef.current.status === "gameover") return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      gestureRecognizer.pointerDown(e.pointerId, e.clientX, e.clientY, e.timeStamp);
+    },
+    onPointerMove: (e: React.PointerEvent) =>
+      gestureRecognizer.pointerMove(e.pointerId, e.clientX, e.clientY, e.timeStamp),
+    onPointerUp: (e: React.PointerEvent) =>
+      gestureRecognizer.pointerUp(e.pointerId, e.clientX, e.clientY, e.timeStamp),
+    onPointerCancel: () => gestureRecognizer.cancel(),
   };
 
   // --- UI Overhaul for professional mobile look ---
 
-  // Touch-friendly controls for mobile
-  const mobileControlBtn = (label: string, onClick: () => void, aria: string, icon?: React.ReactNode) => (
+  // Touch-friendly controls for mobile, handled like bound keys. Held
+  // actions repeat through the input controller while pressed (same DAS/ARR
+  // as keys).
+  const heldButtonHandlers = (action: BindableAction) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      handleActionDown(action, "touch");
+    },
+    onPointerUp: () => handleActionUp(action, "touch"),
+    onPointerCancel: () => handleActionUp(action, "touch"),
+    onLostPointerCapture: () => handleActionUp(action, "touch"),
+  });
+  const mobileControlBtn = (
+    label: string,
+    action: BindableAction,
+    aria: string,
+    icon?: React.ReactNode
+  ) => (
     <button
       style={{
         width: 62,
@@ -414,9 +804,9 @@ export const TetrisGame: React.FC = () => {
         fontSize: 32,
         fontWeight: 800,
         borderRadius: "55%",
-        background: "linear-gradient(180deg,#232944 78%, #1a2443 100%)",
-        border: `2.4px solid ${COLORS.primary}`,
-        color: COLORS.accent,
+        background: `linear-gradient(180deg, ${colors.surface} 78%, ${colors.panel} 100%)`,
+        border: `2.4px solid ${colors.primary}`,
+        color: colors.accent,
         boxShadow: "0 3px 7px #141a2e55",
         margin: 6,
         outline: "none",
@@ -430,415 +820,572 @@ export const TetrisGame: React.FC = () => {
       }}
       aria-label={aria}
       tabIndex={0}
-      onClick={onClick}
+      {...(HELD_CONTROLS[action]
+        ? heldButtonHandlers(action)
+        : { onClick: () => handleActionDown(action, "touch") })}
     >
       {icon || label}
     </button>
   );
 
-  // mobile control handlers
-  const moveLeft = () => {
-    if (piece && !isPaused && !isGameOver) {
-      let pos = { ...piece.pos, x: piece.pos.x - 1 };
-      if (isValidPosition(board, piece.shape, pos)) setPiece({ ...piece, pos });
-    }
-  };
-  const moveRight = () => {
-    if (piece && !isPaused && !isGameOver) {
-      let pos = { ...piece.pos, x: piece.pos.x + 1 };
-      if (isValidPosition(board, piece.shape, pos)) setPiece({ ...piece, pos });
-    }
-  };
-  const moveDown = () => {
-    if (piece && !isPaused && !isGameOver) {
-      let pos = { ...piece.pos, y: piece.pos.y + 1 };
-      if (isValidPosition(board, piece.shape, pos)) setPiece({ ...piece, pos });
-    }
-  };
-  const rotatePiece = () => {
-    if (piece && !isPaused && !isGameOver) {
-      let nextShape = rotate(piece.shape);
-      if (isValidPosition(board, nextShape, piece.pos))
-        setPiece({ ...piece, shape: nextShape });
-    }
-  };
-  const hardDrop = () => {
-    if (piece && !isPaused && !isGameOver) {
-      let dropTo = getDropY(board, piece.shape, piece.pos);
-      setPiece({ ...piece, pos: { ...piece.pos, y: dropTo } });
-      setTimeout(() => fall(), 26);
-    }
-  };
-
   // Overhauled Layout
   return (
-    <div
-      className="tetris-game-layout"
-      style={{
-        display: "flex",
-        flexDirection: "column",
-        alignItems: "center",
-        justifyContent: "center",
-        minHeight: "100vh",
-        width: "100vw",
-        background: COLORS.background,
-        fontFamily: FONT_FAMILY,
-        padding: 0,
-      }}
-    >
-      {/* Score Panel */}
+    <ThemeContext.Provider value={theme}>
       <div
+        className="tetris-game-layout"
         style={{
           display: "flex",
           flexDirection: "column",
           alignItems: "center",
-          background: "linear-gradient(172deg,#232944 95%,#1a2443 100%)",
-          borderRadius: 18,
-          padding: "16px 32px 18px 32px",
-          boxShadow: "0 6px 32px -4px #1a1c338c",
-          border: `2.1px solid ${COLORS.primary}`,
-          marginBottom: 18,
-          marginTop: 28,
-          minWidth: 220,
-          maxWidth: 380,
+          justifyContent: "center",
+          minHeight: "100vh",
+          width: "100vw",
+          background: colors.background,
+          fontFamily: theme.font,
+          padding: 0,
         }}
       >
-        <span
+        {/* Score Panel */}
+        <div
+          role="region"
+          aria-label="Game status"
           style={{
-            color: COLORS.accent,
-            fontWeight: 800,
-            fontSize: 40,
-            letterSpacing: 1.2,
-            lineHeight: 1.09,
-            textShadow: `0 3px 13px #0812`,
-            marginBottom: 8,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            background: `linear-gradient(172deg, ${colors.surface} 95%, ${colors.panel} 100%)`,
+            borderRadius: 18,
+            padding: "16px 32px 18px 32px",
+            boxShadow: "0 6px 32px -4px #1a1c338c",
+            border: `2.1px solid ${colors.primary}`,
+            marginBottom: 18,
+            marginTop: 28,
+            minWidth: 220,
+            maxWidth: 380,
           }}
         >
-          TETRIS
-        </span>
-        <span style={{
-          fontSize: 22,
-          color: COLORS.text,
-          letterSpacing: 0.7,
-          opacity: 0.87,
-          fontWeight: 600,
-        }}>Score</span>
-        <span style={{
-          fontSize: 38,
-          color: COLORS.accent,
-          fontWeight: 900,
-          letterSpacing: "1.1px",
-          marginBottom: 8,
-        }}>{score}</span>
-        <div style={{
-          display: "flex",
-          gap: '24px',
-          width: "90%",
-          marginTop: 7,
-          alignItems: "center",
-          justifyContent: "center"
-        }}>
-          <div>
-            <div style={{ fontSize: 13.5, color: "#7fa1", opacity: 0.7 }}>Level</div>
-            <div style={{
-              fontSize: 21, color: COLORS.primary, fontWeight: 700,
-              background: "#253466da", borderRadius: 6, padding: "1.5px 7px", marginTop: 1
-            }}>{level + 1}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: 13.5, color: "#7fa1", opacity: 0.7 }}>Lines</div>
-            <div style={{
-              fontSize: 21,
-              color: COLORS.accent,
-              background: "#402b1b70",
+          <span
+            role="heading"
+            aria-level={1}
+            style={{
+              color: colors.accent,
+              fontWeight: 800,
+              fontSize: 40,
+              letterSpacing: 1.2,
+              lineHeight: 1.09,
+              textShadow: `0 3px 13px #0812`,
+              marginBottom: 8,
+            }}
+          >
+            TETRIS
+          </span>
+          <span style={{ fontSize: 15, color: colors.secondary, fontWeight: 700, letterSpacing: 1, marginBottom: 2 }}>
+            {mode.name}
+          </span>
+          <button
+            onClick={() => window.navigator.clipboard?.writeText(`${game.seed}`)}
+            title="Copy the seed to share this piece sequence"
+            aria-label={`Seed ${game.seed}, copy to share this piece sequence`}
+            style={{
+              fontSize: 12.5,
+              fontFamily: theme.font,
+              color: colors.text,
+              opacity: 0.7,
+              background: "none",
+              border: "none",
+              padding: 0,
+              marginBottom: 6,
+              cursor: "copy",
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            Seed {game.seed} ⧉
+          </button>
+          <div role="group" aria-label="Score" style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+            <span aria-hidden style={{
+              fontSize: 22,
+              color: colors.text,
+              letterSpacing: 0.7,
+              opacity: 0.87,
               fontWeight: 600,
-              borderRadius: 6,
-              padding: "1.5px 7px",
-              marginTop: 1,
-            }}>{lines}</div>
+            }}>Score</span>
+            <span style={{
+              fontSize: 38,
+              color: colors.accent,
+              fontWeight: 900,
+              letterSpacing: "1.1px",
+              marginBottom: 8,
+            }}>{score}</span>
+          </div>
+          <div style={{
+            display: "flex",
+            gap: '24px',
+            width: "90%",
+            marginTop: 7,
+            alignItems: "center",
+            justifyContent: "center"
+          }}>
+            <div role="group" aria-label="Level">
+              <div aria-hidden style={{ fontSize: 13.5, color: colors.muted, opacity: 0.7 }}>Level</div>
+              <div style={{
+                fontSize: 21, color: colors.primary, fontWeight: 700,
+                background: colors.card, borderRadius: 6, padding: "1.5px 7px", marginTop: 1
+              }}>{level + 1}</div>
+            </div>
+            <div role="group" aria-label="Lines">
+              <div aria-hidden style={{ fontSize: 13.5, color: colors.muted, opacity: 0.7 }}>Lines</div>
+              <div style={{
+                fontSize: 21,
+                color: colors.accent,
+                background: colors.cardAlt,
+                fontWeight: 600,
+                borderRadius: 6,
+                padding: "1.5px 7px",
+                marginTop: 1,
+              }}>{mode.lineGoal !== null ? `${lines}/${mode.lineGoal}` : lines}</div>
+            </div>
+            <div role="group" aria-label="Time">
+              <div aria-hidden style={{ fontSize: 13.5, color: colors.muted, opacity: 0.7 }}>Time</div>
+              <div style={{
+                fontSize: 21,
+                color: colors.text,
+                background: colors.card,
+                fontWeight: 600,
+                borderRadius: 6,
+                padding: "1.5px 7px",
+                marginTop: 1,
+                fontVariantNumeric: "tabular-nums",
+              }}>{formatDuration(getModeClock(mode, elapsedMs)).slice(0, -1)}</div>
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Game/next/controls */}
-      <div style={{
-        display: "flex",
-        flexDirection: "column",
-        alignItems: "center",
-        justifyContent: "center",
-        gap: 0,
-        width: "100%",
-      }}>
-        {/* Board + next piece row */}
+        {/* Game/next/controls */}
         <div style={{
           display: "flex",
-          flexDirection: "row",
-          alignItems: "flex-end",
+          flexDirection: "column",
+          alignItems: "center",
           justifyContent: "center",
+          gap: 0,
           width: "100%",
-          gap: "28px"
         }}>
-          {/* Board */}
-          <div
-            className="tetris-board-container"
-            tabIndex={0}
-            ref={gameBoardRef}
-            style={{
-              background: "#12151b",
-              border: `4px solid ${COLORS.primary}`,
-              borderRadius: 21,
-              boxShadow: "0px 6px 28px -10px #173353b0",
-              padding: 12,
-              width: dimensions.boardW,
-              height: dimensions.boardH,
-              display: "flex",
-              flexDirection: "column",
-              justifyContent: "flex-end",
-              alignItems: "center",
-              marginBottom: 6,
-              position: "relative",
-              transition: "border 0.13s",
-              outline: "3px solid #181c2965",
-            }}
-          >
-            {/* Game Over Overlay */}
-            {isGameOver && (
-              <div
-                style={{
-                  position: "absolute",
-                  zIndex: 11,
-                  left: 0,
-                  top: 0,
-                  width: "100%",
-                  height: "100%",
-                  background: `rgba(27,31,43,0.87)`,
-                  borderRadius: 21,
-                  display: "flex",
-                  flexDirection: "column",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  fontSize: 46,
-                  color: flashGameOver ? COLORS.accent : COLORS.primary,
-                  fontWeight: 900,
-                  letterSpacing: 2,
-                  filter: flashGameOver ? "drop-shadow(0px 0px 10px #ff0a)" : "",
-                  animation: "fade-in 0.5s",
-                  boxShadow: "0 4px 18px #160f189b"
-                }}
-              >
-                <span
+          {/* Board + next piece row */}
+          <div style={{
+            display: "flex",
+            flexDirection: "row",
+            alignItems: "flex-end",
+            justifyContent: "center",
+            width: "100%",
+            gap: "28px"
+          }}>
+            {/* Board */}
+            <div
+              className="tetris-board-container"
+              tabIndex={0}
+              ref={gameBoardRef}
+              role="application"
+              aria-label="Tetris board"
+              aria-describedby="tetris-board-help"
+              {...boardGestureHandlers}
+              style={{
+                background: theme.board.background,
+                border: `4px solid ${colors.primary}`,
+                borderRadius: 21,
+                boxShadow: "0px 6px 28px -10px #173353b0",
+                padding: 12,
+                width: dimensions.boardW,
+                height: dimensions.boardH,
+                display: "flex",
+                flexDirection: "column",
+                justifyContent: "flex-end",
+                alignItems: "center",
+                marginBottom: 6,
+                position: "relative",
+                transition: "border 0.13s",
+                outline: "3px solid #181c2965",
+                touchAction: "none",
+              }}
+            >
+              <span id="tetris-board-help" className="tetris-sr-only">
+                {bindings.describeBoard.length > 0
+                  ? `Press ${formatKey(bindings.describeBoard[0])} to hear the column heights.`
+                  : "Bind a key to Describe board in Controls to hear the column heights."}
+              </span>
+              {/* Game Over Overlay */}
+              {isGameOver && (
+                <div
+                  ref={gameOverRef}
+                  role="dialog"
+                  aria-modal="true"
+                  aria-label={getEndTitle(game.endReason)}
+                  tabIndex={-1}
                   style={{
-                    fontSize: 64,
-                    marginBottom: 12,
+                    position: "absolute",
+                    zIndex: 11,
+                    left: 0,
+                    top: 0,
+                    width: "100%",
+                    height: "100%",
+                    background: colors.backdrop,
+                    borderRadius: 21,
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    fontSize: 46,
+                    color: flashGameOver ? colors.accent : colors.primary,
                     fontWeight: 900,
-                    textShadow: `0 4px 20px #000b`,
+                    letterSpacing: 2,
+                    filter: flashGameOver ? `drop-shadow(0px 0px 10px ${colors.accent})` : "",
+                    animation: "fade-in 0.5s",
+                    boxShadow: "0 4px 18px #160f189b",
+                    overflowY: "auto",
                   }}
                 >
-                  GAME OVER
-                </span>
-                <span style={{ fontSize: 27, marginBottom: 2 }}>
-                  Score: <span style={{ color: COLORS.accent }}>{score}</span>
-                </span>
-                <button
+                  <GameResults state={game} />
+                  <div style={{ marginTop: 14 }}>
+                    {pendingEntry ? (
+                      <InitialsPrompt
+                        initialName={loadPlayerName()}
+                        onSubmit={submitHighScore}
+                        onSkip={() => setPendingEntry(null)}
+                      />
+                    ) : (
+                      <HighScoreTable
+                        mode={mode}
+                        entries={getModeTable(highScores, game.mode, game.seed)}
+                        highlight={newEntry}
+                      />
+                    )}
+                  </div>
+                  <div style={{ display: "flex", gap: 12, marginTop: 18 }}>
+                    <button
+                      style={overlayButtonStyle}
+                      onClick={initGame}
+                      tabIndex={0}
+                    >
+                      Restart
+                    </button>
+                    <button
+                      style={{ ...overlayButtonStyle, background: colors.surface, color: colors.accent }}
+                      onClick={openReplays}
+                      tabIndex={0}
+                    >
+                      Watch Replay
+                    </button>
+                    <button
+                      style={{ ...overlayButtonStyle, background: colors.surface, color: colors.accent }}
+                      onClick={() => openOverlay("modes")}
+                      tabIndex={0}
+                    >
+                      Modes
+                    </button>
+                  </div>
+                </div>
+              )}
+              {/* Pause Overlay */}
+              {!isGameOver && isPaused && (
+                <div
                   style={{
-                    marginTop: 25,
-                    fontSize: 22,
-                    borderRadius: 12,
-                    border: "none",
-                    padding: "8px 17px",
-                    fontWeight: 700,
-                    background: COLORS.primary,
-                    color: "#fff",
-                    cursor: "pointer",
-                    transition: "background 0.13s",
-                    boxShadow: "0 2px 14px #132",
-                    letterSpacing: 0.4,
+                    position: "absolute",
+                    zIndex: 11,
+                    left: 0,
+                    top: 0,
+                    width: "100%",
+                    height: "100%",
+                    background: colors.scrim,
+                    borderRadius: 21,
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    fontSize: 44,
+                    color: colors.secondary,
+                    fontWeight: 900,
+                    letterSpacing: 2,
+                    animation: "fade-in 0.5s",
                   }}
-                  onClick={initGame}
-                  tabIndex={0}
                 >
-                  Restart
-                </button>
-              </div>
-            )}
-            {/* Pause Overlay */}
-            {!isGameOver && isPaused && (
+                  <span
+                    style={{
+                      marginBottom: 18,
+                      textShadow: `0 2px 16px #000a`,
+                    }}
+                  >
+                    PAUSED
+                  </span>
+                  <span style={{
+                    fontSize: 18, fontWeight: 500, opacity: 0.91, marginTop: 7
+                  }}>
+                    Tap board, or{" "}
+                    <span style={{ color: colors.accent }}>
+                      {formatKey(bindings.hardDrop[0] ?? bindings.pause[0] ?? " ")}
+                    </span>{" "}
+                    to resume
+                  </span>
+                </div>
+              )}
               <div
+                aria-hidden
                 style={{
-                  position: "absolute",
-                  zIndex: 11,
-                  left: 0,
-                  top: 0,
-                  width: "100%",
-                  height: "100%",
-                  background: "#1b204baa",
-                  borderRadius: 21,
+                  width: dimensions.boardW,
+                  height: dimensions.boardH,
                   display: "flex",
                   flexDirection: "column",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  fontSize: 44,
-                  color: COLORS.secondary,
-                  fontWeight: 900,
-                  letterSpacing: 2,
-                  animation: "fade-in 0.5s",
+                  justifyContent: "flex-end",
+                  zIndex: 1,
+                  pointerEvents: "none",
+                  filter: isGameOver ? "blur(2.1px)" : undefined,
+                  boxShadow: "0px 0.5px 8px #01040a60",
                 }}
               >
-                <span
-                  style={{
-                    marginBottom: 18,
-                    textShadow: `0 2px 16px #000a`,
-                  }}
-                >
-                  PAUSED
-                </span>
-                <span style={{
-                  fontSize: 18, fontWeight: 500, opacity: 0.91, marginTop: 7
+                <div style={{ position: "relative" }}>
+                  <Playfield
+                    board={board}
+                    piece={piece}
+                    cellSize={dimensions.cell}
+                    hiddenRows={game.rules.bufferRows}
+                  />
+                  <EffectsLayer
+                    lock={lastLock}
+                    cols={cols}
+                    cellSize={dimensions.cell}
+                    hiddenRows={game.rules.bufferRows}
+                    settings={effects}
+                  />
+                </div>
+              </div>
+              {popup && (
+                <ClearPopup
+                  key={popup.id}
+                  event={popup.event}
+                  cellSize={dimensions.cell}
+                  onDone={() => setPopup(null)}
+                />
+              )}
+            </div>
+            {/* Hold + Next Piece */}
+            <div style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: 14,
+              marginLeft: 2,
+              marginBottom: 16,
+            }}>
+              <div style={sidePanelStyle} role="group" aria-label={`Hold: ${holdType ?? "empty"}`}>
+                <div aria-hidden style={{ fontSize: 15, letterSpacing: 0.5, color: colors.accent, marginBottom: 3 }}>
+                  HOLD
+                </div>
+                <PiecePreview
+                  pieceType={holdType}
+                  cellSize={Math.max(dimensions.cell * 0.76, 16)}
+                  dimmed={holdUsed}
+                />
+              </div>
+              <div style={sidePanelStyle} role="group" aria-label={`Next: ${queue.slice(0, previewCount).join(", ")}`}>
+                <div style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 4,
+                  fontSize: 15,
+                  letterSpacing: 0.5,
+                  color: colors.accent,
+                  marginBottom: 3,
                 }}>
-                  Tap board, or <span style={{ color: COLORS.accent }}>Space</span> to resume
-                </span>
+                  <button
+                    style={previewStepperStyle}
+                    aria-label="Show fewer next pieces"
+                    disabled={previewCount <= 1}
+                    onClick={() => setPreviewCount(n => clampPreviewCount(n - 1))}
+                  >
+                    −
+                  </button>
+                  NEXT
+                  <button
+                    style={previewStepperStyle}
+                    aria-label="Show more next pieces"
+                    disabled={previewCount >= MAX_PREVIEW}
+                    onClick={() => setPreviewCount(n => clampPreviewCount(n + 1))}
+                  >
+                    +
+                  </button>
+                </div>
+                {/* Stacked preview column: first piece full size, the rest smaller */}
+                <div aria-hidden style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 6 }}>
+                  {queue.slice(0, previewCount).map((type, i) => (
+                    <PiecePreview
+                      key={i}
+                      pieceType={type}
+                      cellSize={Math.max(dimensions.cell * (i === 0 ? 0.76 : 0.5), i === 0 ? 16 : 11)}
+                    />
+                  ))}
+                </div>
               </div>
-            )}
-            <div
-              style={{
-                width: dimensions.boardW,
-                height: dimensions.boardH,
-                display: "flex",
-                flexDirection: "column",
-                justifyContent: "flex-end",
-                zIndex: 1,
-                pointerEvents: "none",
-                filter: isGameOver ? "blur(2.1px)" : undefined,
-                boxShadow: "0px 0.5px 8px #01040a60",
-              }}
-            >
-              {renderBoard()}
             </div>
           </div>
-          {/* Next Piece */}
-          <div style={{
-            background: "#222a36",
-            borderRadius: 13,
-            padding: "12px 11px",
-            boxShadow: "0 4px 16px #110f2245",
-            border: `2px solid ${COLORS.secondary}`,
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "center",
-            minWidth: "86px",
-            marginLeft: 2,
-            marginBottom: 16,
-          }}>
-            <div style={{ fontSize: 15, letterSpacing: 0.5, color: COLORS.accent, marginBottom: 3 }}>
-              NEXT
+          {/* Touch/Mobile Controls */}
+          <div
+            style={{
+              marginTop: 25,
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              width: "98vw",
+            }}
+          >
+            <div style={{
+              display: "flex",
+              flexDirection: "row",
+              justifyContent: "center",
+              alignItems: "center",
+              gap: 16,
+              marginBottom: 4,
+            }}>
+              {mobileControlBtn("⭠", "moveLeft", "Move Left")}
+              {mobileControlBtn("⟲", "rotateCCW", "Rotate Counter-clockwise")}
+              {mobileControlBtn("⭡", "rotateCW", "Rotate")}
+              {mobileControlBtn("⭢", "moveRight", "Move Right")}
+              {mobileControlBtn("⭣", "softDrop", "Soft Drop")}
+              {mobileControlBtn("↓", "hardDrop", "Hard Drop", <span style={{ fontSize: 26 }}>DROP</span>)}
+              {mobileControlBtn("H", "hold", "Hold Piece", <span style={{ fontSize: 20 }}>HOLD</span>)}
             </div>
-            <NextPiecePreview
-              pieceType={nextPieceType}
-              cellSize={Math.max(dimensions.cell * 0.76, 16)}
-            />
           </div>
         </div>
-        {/* Touch/Mobile Controls */}
+
+        {/* Footer/Credits */}
         <div
           style={{
-            marginTop: 25,
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "center",
-            width: "98vw",
+            marginTop: 32,
+            marginBottom: 14,
+            fontSize: 13,
+            color: colors.muted,
+            opacity: 0.66,
+            textAlign: "center"
           }}
         >
-          <div style={{
-            display: "flex",
-            flexDirection: "row",
-            justifyContent: "center",
-            alignItems: "center",
-            gap: 16,
-            marginBottom: 4,
-          }}>
-            {mobileControlBtn("⭠", moveLeft, "Move Left")}
-            {mobileControlBtn("⭡", rotatePiece, "Rotate")}
-            {mobileControlBtn("⭢", moveRight, "Move Right")}
-            {mobileControlBtn("⭣", moveDown, "Soft Drop")}
-            {mobileControlBtn("↓", hardDrop, "Hard Drop", <span style={{ fontSize: 26 }}>DROP</span>)}
-          </div>
+          <span role="img" aria-label="joy">🎮</span> Tetris Demo &copy; {new Date().getFullYear()}
+          {gamepadConnected && (
+            <span style={{ color: colors.accent }}>{" · "}Controller connected</span>
+          )}
+          {" · "}
+          <button onClick={() => openOverlay("modes")} style={FOOTER_LINK_STYLE}>
+            Modes
+          </button>
+          {/* Zen never tops out, so the player ends it to see the results. */}
+          {mode.topOut === "clearBoard" && !isGameOver && (
+            <>
+              {" · "}
+              <button onClick={() => dispatch({ type: "end" })} style={FOOTER_LINK_STYLE}>
+                End game
+              </button>
+            </>
+          )}
+          {" · "}
+          <button onClick={openReplays} style={FOOTER_LINK_STYLE}>
+            Replays
+          </button>
+          {" · "}
+          <button onClick={() => openOverlay("controls")} style={FOOTER_LINK_STYLE}>
+            Controls
+          </button>
+          {" · "}
+          <label>
+            Theme{" "}
+            <select
+              value={themeId}
+              onChange={(e) => changeTheme(e.target.value as ThemeId)}
+              style={{ font: "inherit", color: colors.text, background: colors.surface, borderRadius: 4 }}
+            >
+              {THEME_IDS.map((id) => (
+                <option key={id} value={id}>{THEMES[id].name}</option>
+              ))}
+            </select>
+          </label>
+          {" · "}
+          <button onClick={toggleAutoplay} style={FOOTER_LINK_STYLE} aria-pressed={autoplay}>
+            Autoplay: {autoplay ? "on" : "off"}
+          </button>
+          {autoplay && (
+            <label style={{ marginLeft: 8 }}>
+              Bot speed{" "}
+              <input
+                type="range"
+                min={2}
+                max={60}
+                value={botSettings.actionsPerSecond}
+                onChange={(e) => changeBotSettings({ actionsPerSecond: Number(e.target.value) })}
+                style={{ verticalAlign: "middle" }}
+              />{" "}
+              {botSettings.actionsPerSecond}/s
+            </label>
+          )}
         </div>
-      </div>
-
-      {/* Footer/Credits */}
-      <div
-        style={{
-          marginTop: 32,
-          marginBottom: 14,
-          fontSize: 13,
-          color: "#fff6",
-          opacity: 0.66,
-          textAlign: "center"
-        }}
-      >
-        <span role="img" aria-label="joy">🎮</span> Tetris Demo &copy; {new Date().getFullYear()}
-      </div>
-    </div>
-  );
-};
-
-const NextPiecePreview: React.FC<{ pieceType: TetrominoType | null; cellSize: number }> = ({
-  pieceType,
-  cellSize,
-}) => {
-  if (!pieceType) return <div style={{ height: cellSize * 4, width: cellSize * 4 }} />;
-  const { shape, color } = getTetromino(pieceType);
-  // Center in 4x4 viewport
-  const padRows = 4 - shape.length;
-  const padCols = 4 - shape[0].length;
-
-  const preview = Array.from({ length: 4 }).map((_, y) =>
-    Array.from({ length: 4 }).map((_, x) =>
-      (y >= Math.floor(padRows / 2) &&
-        y < Math.floor(padRows / 2) + shape.length &&
-        x >= Math.floor(padCols / 2) &&
-        x < Math.floor(padCols / 2) + shape[0].length &&
-        shape[y - Math.floor(padRows / 2)][x - Math.floor(padCols / 2)]
-      )
-        ? color
-        : null
-    )
-  );
-
-  return (
-    <div
-      style={{
-        display: "flex",
-        flexDirection: "column",
-        height: cellSize * 4,
-        width: cellSize * 4,
-        background: "#181c23",
-        borderRadius: 11,
-        alignItems: "center",
-        justifyContent: "center",
-        gap: 0,
-        padding: 4,
-      }}
-    >
-      {preview.map((row, y) => (
-        <div style={{ display: "flex" }} key={y}>
-          {row.map((cell, x) => (
-            <div
-              key={x}
-              style={{
-                width: cellSize - 7.5,
-                height: cellSize - 7.5,
-                margin: 1.1,
-                borderRadius: 6,
-                background: cell ? cell : "#23293d",
-                boxShadow: cell ? "0 1.3px 8px #0006" : "none",
-                border: cell ? `1.2px solid #0c102055` : "none",
-                transition: "background 0.13s, border 0.15s",
-              }}
-            />
-          ))}
+        {/* Screen reader announcements; a new key makes a repeat heard again. */}
+        <div className="tetris-sr-only" role="status" aria-live="polite" aria-atomic="true">
+          {announcement && <span key={announcement.id}>{announcement.text}</span>}
         </div>
-      ))}
-    </div>
+        {gamepadNotice && (
+          <div
+            role="status"
+            style={{
+              position: "fixed",
+              top: 14,
+              left: "50%",
+              transform: "translateX(-50%)",
+              zIndex: 60,
+              background: colors.surface,
+              border: `2px solid ${colors.primary}`,
+              borderRadius: 12,
+              padding: "8px 16px",
+              color: colors.text,
+              fontSize: 15,
+              boxShadow: "0 4px 16px #110f2245",
+              animation: "fade-in 0.3s",
+            }}
+          >
+            🎮 {gamepadNotice}
+          </div>
+        )}
+        {overlay === "modes" && (
+          <ModeSelect
+            current={game.mode}
+            savedGame={savedGame}
+            onResume={resumeSavedGame}
+            boardPreset={boardPreset}
+            onChangeBoardPreset={changeBoardPreset}
+            randomizer={randomizerChoice}
+            onChangeRandomizer={changeRandomizer}
+            seedText={seedText}
+            onChangeSeedText={setSeedText}
+            onSelect={selectMode}
+            onClose={() => setOverlay(null)}
+          />
+        )}
+        {overlay === "replays" && (
+          <ReplayPlayer
+            replays={replays}
+            cellSize={Math.max(Math.floor(dimensions.cell * 0.8), 16)}
+            onClose={() => setOverlay(null)}
+          />
+        )}
+        {overlay === "controls" && (
+          <ControlsSettings
+            bindings={bindings}
+            gamepadBindings={gamepadBindings}
+            handling={handlingConfig}
+            gestures={gestures}
+            onChangeBindings={changeBindings}
+            onChangeGamepadBindings={changeGamepadBindings}
+            onChangeHandling={changeHandling}
+            onChangeGestures={changeGestures}
+            effects={effects}
+            onChangeEffects={changeEffects}
+            audio={audioSettings}
+            onChangeAudio={changeAudio}
+            onClose={() => setOverlay(null)}
+          />
+        )}
+      </div>
+    </ThemeContext.Provider>
   );
 };
@@ -0,0 +1,69 @@
+// What the board and piece previews show, independent of how they are
+// drawn. Shared by the DOM and canvas renderers.
+
+import { Board, PieceState, TetrominoType } from "../tetris/types";
+import { getTetromino } from "../tetris/engine";
+import { getDropY } from "../tetris/game";
+
+// Both renderers draw blocks of cellSize - 3.5 with 1.2px margins.
+export const BLOCK_INSET = 1.2;
+export const BLOCK_SHRINK = 3.5;
+
+// Distance between neighbouring cells on the board.
+// PUBLIC_INTERFACE
+export function getCellPitch(cellSize: number): number {
+  return cellSize - BLOCK_SHRINK + 2 * BLOCK_INSET;
+}
+
+// PUBLIC_INTERFACE
+export type DrawnCell = { type: TetrominoType | null; ghost: boolean };
+
+const EMPTY: DrawnCell = { type: null, ghost: false };
+
+// PUBLIC_INTERFACE
+export function isSameCell(a: DrawnCell, b: DrawnCell): boolean {
+  return a.type === b.type && a.ghost === b.ghost;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * The visible rows of the board (the top `hiddenRows` skipped) with the
+ * ghost and the active piece drawn over the settled blocks.
+ */
+export function composeCells(board: Board, piece: PieceState | null, hiddenRows = 0): DrawnCell[][] {
+  const rows = board.length;
+  const cols = board[0].length;
+  const drawn: DrawnCell[][] = board.map((row) => row.map((type) => (type === null ? EMPTY : { type, ghost: false })));
+  if (piece) {
+    const ghostY = getDropY(board, piece.shape, piece.pos);
+    const stamp = (top: number, ghost: boolean) => {
+      piece.shape.forEach((row, dy) => {
+        row.forEach((cell, dx) => {
+          const x = piece.pos.x + dx;
+          const y = top + dy;
+          if (!cell || x < 0 || x >= cols || y < 0 || y >= rows) return;
+          if (!ghost || drawn[y][x].type === null) drawn[y][x] = { type: piece.type, ghost };
+        });
+      });
+    };
+    stamp(ghostY, true);
+    stamp(piece.pos.y, false);
+  }
+  return drawn.slice(hiddenRows);
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * A 4x4 mask of `type`'s spawn shape, centred, for the NEXT and HOLD boxes.
+ */
+export function getPreviewMask(type: TetrominoType): boolean[][] {
+  const { shape } = getTetromino(type);
+  const top = Math.floor((4 - shape.length) / 2);
+  const left = Math.floor((4 - shape[0].length) / 2);
+  return Array.from({ length: 4 }, (_, y) =>
+    Array.from({ length: 4 }, (_, x) => {
+      const row = shape[y - top];
+      return !!row && x >= left && !!row[x - left];
+    })
+  );
+}
@@ -0,0 +1,38 @@
+// Which visual effects play on top of the board. Purely cosmetic, so the
+// engine knows nothing about them; they react to GameState.lastLock.
+
+import { z } from "zod";
+import { readStored, writeStored } from "../tetris/storage";
+
+const EFFECTS_STORAGE_KEY = "tetris.effects";
+
+export const effectsSettingsSchema = z.object({
+  // Cleared rows flash and dissolve.
+  lineClear: z.boolean(),
+  // The board shakes on a Tetris (four or more rows at once).
+  shake: z.boolean(),
+  // Dust puffs from under a hard-dropped piece.
+  dust: z.boolean(),
+  // "LEVEL N" banner across the board.
+  levelUp: z.boolean(),
+});
+
+// PUBLIC_INTERFACE
+export type EffectsSettings = z.infer<typeof effectsSettingsSchema>;
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  lineClear: true,
+  shake: true,
+  dust: true,
+  levelUp: true,
+};
+
+// PUBLIC_INTERFACE
+export function loadEffectsSettings(): EffectsSettings | null {
+  return readStored(EFFECTS_STORAGE_KEY, effectsSettingsSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveEffectsSettings(settings: EffectsSettings): void {
+  writeStored(EFFECTS_STORAGE_KEY, settings);
+}
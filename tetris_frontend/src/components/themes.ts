@@ -0,0 +1,287 @@
+// Skins for the Tetris UI and video compositions. Components read the
+// active theme from ThemeContext, so switching it restyles a running game.
+
+import React, { useContext } from "react";
+import { z } from "zod";
+import { TetrominoType } from "../tetris/types";
+import { readStored, writeStored } from "../tetris/storage";
+
+const THEME_STORAGE_KEY = "tetris.theme";
+
+export const themeIdSchema = z.enum(["classic", "midnight", "okabeIto", "highContrast"]);
+
+// PUBLIC_INTERFACE
+export type ThemeId = z.infer<typeof themeIdSchema>;
+
+// Overlay drawn on a piece's blocks so pieces can be told apart without
+// relying on hue alone.
+// PUBLIC_INTERFACE
+export type CellPattern = "none" | "horizontal" | "vertical" | "diagonal" | "antiDiagonal" | "dots" | "checker";
+
+// PUBLIC_INTERFACE
+export type Theme = {
+  id: ThemeId;
+  name: string;
+  pieces: Record<TetrominoType, string>;
+  // Null draws plain blocks.
+  patterns: Record<TetrominoType, CellPattern> | null;
+  board: {
+    // The well behind the cells, also used behind piece previews.
+    background: string;
+    cell: string;
+    ghost: string;
+    blockBorder: string;
+    patternInk: string;
+  };
+  colors: {
+    background: string;
+    // Behind full-screen dialogs, and over the board when paused or over.
+    backdrop: string;
+    scrim: string;
+    panel: string;
+    // Secondary buttons.
+    surface: string;
+    // Stat chips and list items.
+    card: string;
+    cardAlt: string;
+    input: string;
+    // Hairlines between list rows.
+    border: string;
+    primary: string;
+    secondary: string;
+    accent: string;
+    text: string;
+    muted: string;
+    // Text on primary-coloured buttons.
+    onPrimary: string;
+  };
+  font: string;
+};
+
+const SYSTEM_FONT = '"SF Pro Text", "Segoe UI", Helvetica, Arial, sans-serif';
+
+// Mirror-image pieces get mirrored stripes.
+const PIECE_PATTERNS: Record<TetrominoType, CellPattern> = {
+  I: "horizontal",
+  O: "none",
+  T: "dots",
+  S: "diagonal",
+  Z: "antiDiagonal",
+  J: "vertical",
+  L: "checker",
+};
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: {
+    id: "classic",
+    name: "Classic",
+    pieces: {
+      I: "#2196F3",
+      O: "#FFEB3B",
+      T: "#9C27B0",
+      S: "#43A047",
+      Z: "#E53935",
+      J: "#1565C0",
+      L: "#FFA726",
+    },
+    patterns: null,
+    board: {
+      background: "#12151b",
+      cell: "#222933",
+      ghost: "#4c6070aa",
+      blockBorder: "#191f33cc",
+      patternInk: "#0006",
+    },
+    colors: {
+      background: "#182027",
+      backdrop: "#182027f2",
+      scrim: "#1b204baa",
+      panel: "#222a36",
+      surface: "#232944",
+      card: "#253466",
+      cardAlt: "#3a2a55",
+      input: "#12151b",
+      border: "#ffffff12",
+      primary: "#2196F3",
+      secondary: "#1E88E5",
+      accent: "#FFEB3B",
+      text: "#fff",
+      muted: "#fff9",
+      onPrimary: "#fff",
+    },
+    font: SYSTEM_FONT,
+  },
+  midnight: {
+    id: "midnight",
+    name: "Midnight neon",
+    pieces: {
+      I: "#18FFFF",
+      O: "#FFFF00",
+      T: "#E040FB",
+      S: "#76FF03",
+      Z: "#FF1744",
+      J: "#651FFF",
+      L: "#FF9100",
+    },
+    patterns: null,
+    board: {
+      background: "#07060f",
+      cell: "#151226",
+      ghost: "#b388ff55",
+      blockBorder: "#000a",
+      patternInk: "#0006",
+    },
+    colors: {
+      background: "#0d0b1e",
+      backdrop: "#0d0b1ef2",
+      scrim: "#0d0b1ebb",
+      panel: "#17142e",
+      surface: "#221d45",
+      card: "#2c2560",
+      cardAlt: "#3d1f4d",
+      input: "#07060f",
+      border: "#ece8ff14",
+      primary: "#b388ff",
+      secondary: "#7c4dff",
+      accent: "#18ffff",
+      text: "#ece8ff",
+      muted: "#b7aee0",
+      onPrimary: "#0d0b1e",
+    },
+    font: '"Trebuchet MS", ' + SYSTEM_FONT,
+  },
+  // Okabe & Ito's palette stays distinct under the common colour-vision
+  // deficiencies; the patterns cover the rest.
+  okabeIto: {
+    id: "okabeIto",
+    name: "Colour-blind safe",
+    pieces: {
+      I: "#56B4E9",
+      O: "#F0E442",
+      T: "#CC79A7",
+      S: "#009E73",
+      Z: "#D55E00",
+      J: "#0072B2",
+      L: "#E69F00",
+    },
+    patterns: PIECE_PATTERNS,
+    board: {
+      background: "#101214",
+      cell: "#23272b",
+      ghost: "#ffffff40",
+      blockBorder: "#000c",
+      patternInk: "#000a",
+    },
+    colors: {
+      background: "#1b1e22",
+      backdrop: "#1b1e22f2",
+      scrim: "#1b1e22bb",
+      panel: "#262a30",
+      surface: "#30353c",
+      card: "#3a4048",
+      cardAlt: "#4a4036",
+      input: "#101214",
+      border: "#ffffff1a",
+      primary: "#56B4E9",
+      secondary: "#0072B2",
+      accent: "#F0E442",
+      text: "#fff",
+      muted: "#fffa",
+      onPrimary: "#101214",
+    },
+    font: SYSTEM_FONT,
+  },
+  highContrast: {
+    id: "highContrast",
+    name: "High contrast",
+    pieces: {
+      I: "#00FFFF",
+      O: "#FFFF00",
+      T: "#FF00FF",
+      S: "#00FF00",
+      Z: "#FF4040",
+      J: "#4D94FF",
+      L: "#FF9900",
+    },
+    patterns: PIECE_PATTERNS,
+    board: {
+      background: "#000",
+      cell: "#1a1a1a",
+      ghost: "#ffffff66",
+      blockBorder: "#000",
+      patternInk: "#000c",
+    },
+    colors: {
+      background: "#000",
+      backdrop: "#000000f2",
+      scrim: "#000c",
+      panel: "#000",
+      surface: "#1a1a1a",
+      card: "#262626",
+      cardAlt: "#333",
+      input: "#000",
+      border: "#ffffff66",
+      primary: "#fff",
+      secondary: "#fff",
+      accent: "#FFFF00",
+      text: "#fff",
+      muted: "#ddd",
+      onPrimary: "#000",
+    },
+    font: SYSTEM_FONT,
+  },
+};
+
+// Menu order.
+export const THEME_IDS: ThemeId[] = ["classic", "midnight", "okabeIto", "highContrast"];
+
+export const DEFAULT_THEME = THEMES.classic;
+
+// PUBLIC_INTERFACE
+export const ThemeContext = React.createContext<Theme>(DEFAULT_THEME);
+
+// PUBLIC_INTERFACE
+export function useTheme(): Theme {
+  return useContext(ThemeContext);
+}
+
+function getPatternLayer(pattern: CellPattern, ink: string): string | null {
+  const stripes = (angle: number) => `repeating-linear-gradient(${angle}deg, ${ink} 0 2px, transparent 2px 6px)`;
+  switch (pattern) {
+    case "none":
+      return null;
+    case "horizontal":
+      return stripes(0);
+    case "vertical":
+      return stripes(90);
+    case "diagonal":
+      return stripes(45);
+    case "antiDiagonal":
+      return stripes(-45);
+    case "dots":
+      return `radial-gradient(circle, ${ink} 0 1.8px, transparent 2.2px) 0 0 / 7px 7px`;
+    case "checker":
+      return `conic-gradient(${ink} 25%, transparent 0 50%, ${ink} 0 75%, transparent 0) 0 0 / 8px 8px`;
+  }
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * CSS `background` for a block of `type`: the piece colour, under its
+ * pattern when the theme has patterns.
+ */
+export function getBlockBackground(theme: Theme, type: TetrominoType): string {
+  const color = theme.pieces[type];
+  const layer = theme.patterns && getPatternLayer(theme.patterns[type], theme.board.patternInk);
+  return layer ? `${layer}, ${color}` : color;
+}
+
+// PUBLIC_INTERFACE
+export function loadThemeId(): ThemeId | null {
+  return readStored(THEME_STORAGE_KEY, themeIdSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveThemeId(id: ThemeId): void {
+  writeStored(THEME_STORAGE_KEY, id);
+}
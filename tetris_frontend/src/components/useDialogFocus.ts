@@ -0,0 +1,64 @@
+/* global HTMLElement */
+// Focus handling for modal dialogs, following the WAI-ARIA dialog pattern.
+
+import React, { useEffect, useRef } from "react";
+
+const FOCUSABLE = [
+  "button:not([disabled])",
+  "[href]",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(", ");
+
+/**
+ * PUBLIC_INTERFACE
+ * While `open`, the dialog in `ref` holds the focus: it moves to the first
+ * control inside, Tab and Shift+Tab cycle within the dialog, and Escape
+ * calls `onClose` (if given). Focus goes back to where it was on close.
+ */
+export function useDialogFocus(
+  ref: React.RefObject<React.ElementRef<"div"> | null>,
+  open = true,
+  onClose?: () => void
+): void {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!open || !dialog) return;
+    const doc = window.document;
+    const opener = doc.activeElement as HTMLElement | null;
+    const getFocusable = () =>
+      Array.prototype.slice.call(dialog.querySelectorAll(FOCUSABLE)) as HTMLElement[];
+    if (!dialog.contains(doc.activeElement)) (getFocusable()[0] ?? dialog).focus();
+
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key === "Escape" && onCloseRef.current) {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+      const items = getFocusable();
+      const active = doc.activeElement;
+      if (items.length === 0) {
+        e.preventDefault();
+        dialog.focus();
+      } else if (e.shiftKey && (active === items[0] || !dialog.contains(active))) {
+        e.preventDefault();
+        items[items.length - 1].focus();
+      } else if (!e.shiftKey && (active === items[items.length - 1] || !dialog.contains(active))) {
+        e.preventDefault();
+        items[0].focus();
+      }
+    };
+    doc.addEventListener("keydown", onKeyDown);
+    return () => {
+      doc.removeEventListener("keydown", onKeyDown);
+      if (opener && doc.contains(opener)) opener.focus();
+    };
+  }, [ref, open]);
+}
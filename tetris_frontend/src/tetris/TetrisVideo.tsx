@@ -0,0 +1,250 @@
+import React, { useMemo, useRef } from "react";
+import { AbsoluteFill, Audio, Sequence, useCurrentFrame, useVideoConfig } from "remotion";
+import { z } from "zod";
+import { BoardView } from "../components/BoardView";
+import { NextPiecePreview } from "../components/NextPiecePreview";
+import { THEMES, ThemeContext, themeIdSchema } from "../components/themes";
+import { FRAME_MS, createGame, step } from "./game";
+import { createBotPlayer } from "./bot";
+import { DEFAULT_AUDIO, audioSettingsSchema } from "./audio";
+import {
+  SOUNDS,
+  SoundId,
+  collectSoundCues,
+  getMusicLoop,
+  getSoundLength,
+  layoutMusic,
+  renderTones,
+  toWavDataUri,
+} from "./sounds";
+import { DEFAULT_RULES, gameRulesSchema } from "./rules";
+import {
+  GameModeId,
+  formatDuration,
+  gameModeIdSchema,
+  getEndTitle,
+  getMode,
+  getModeClock,
+} from "./modes";
+import {
+  InputEvent,
+  TimelinePoint,
+  advance,
+  groupByFrame,
+  inputEventSchema,
+} from "./timeline";
+
+export const tetrisVideoSchema = z.object({
+  seed: z.number().int().min(0),
+  mode: gameModeIdSchema,
+  // Board size and spawn rules; the standard board when omitted.
+  rules: gameRulesSchema.optional(),
+  // Skin; the classic one when omitted.
+  theme: themeIdSchema.optional(),
+  // Music and effect volumes; the game's defaults when omitted.
+  audio: audioSettingsSchema.optional(),
+  inputs: z.array(inputEventSchema),
+});
+
+// Rendered sounds, shared by every cue that plays them.
+const wavCache = new Map<string, string>();
+
+function getSoundWav(sound: SoundId): string {
+  let uri = wavCache.get(sound);
+  if (!uri) {
+    uri = toWavDataUri(renderTones(SOUNDS[sound], getSoundLength(sound)));
+    wavCache.set(sound, uri);
+  }
+  return uri;
+}
+
+function getMusicWav(bpm: number): string {
+  const key = `music-${bpm}`;
+  let uri = wavCache.get(key);
+  if (!uri) {
+    const { tones, length } = getMusicLoop(bpm);
+    uri = toWavDataUri(renderTones(tones, length));
+    wavCache.set(key, uri);
+  }
+  return uri;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Inputs for the default props: the bot plays `seed` at a watchable pace
+ * (one action every `framesPerAction` frames), so the video keeps clearing
+ * lines for its whole length.
+ */
+export function createDemoInputs(
+  durationInFrames: number,
+  seed: number,
+  mode: GameModeId = "marathon",
+  framesPerAction = 4
+): InputEvent[] {
+  const bot = createBotPlayer();
+  const events: InputEvent[] = [];
+  // Same order as advance(): the frame's inputs, then one tick.
+  let state = createGame(seed, mode);
+  for (let frame = 0; frame < durationInFrames && state.status !== "gameover"; frame++) {
+    if (frame % framesPerAction === 0) {
+      const action = bot.nextAction(state);
+      const next = action ? step(state, action) : state;
+      if (action && next !== state) {
+        events.push({ frame, action });
+        state = next;
+      } else {
+        // Gravity spoiled the plan (e.g. a shift now blocked); replan.
+        bot.reset();
+      }
+    }
+    state = step(state, { type: "tick", ms: FRAME_MS });
+  }
+  return events;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Frame-driven Tetris composition: the game state is derived from
+ * useCurrentFrame() by replaying `inputs` from `seed`, so every render of
+ * the same props gives the same video.
+ */
+export const TetrisVideo: React.FC<z.infer<typeof tetrisVideoSchema>> = ({
+  seed,
+  mode,
+  rules = DEFAULT_RULES,
+  theme: themeId = "classic",
+  audio = DEFAULT_AUDIO,
+  inputs,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height, durationInFrames } = useVideoConfig();
+  const byFrame = useMemo(() => groupByFrame(inputs), [inputs]);
+
+  // The same sounds the game would make, laid out over the whole video.
+  const cues = useMemo(
+    () => collectSoundCues({ frame: 0, state: createGame(seed, mode, rules) }, durationInFrames, byFrame, 1000 / fps),
+    [seed, mode, rules, byFrame, durationInFrames, fps]
+  );
+  const musicClips = useMemo(() => layoutMusic(cues.music, fps), [cues, fps]);
+
+  // Frames are usually rendered in order; resume from the last one when we can.
+  const cache = useRef<{
+    seed: number;
+    rules: typeof rules;
+    byFrame: typeof byFrame;
+    point: TimelinePoint;
+  } | null>(null);
+  let start: TimelinePoint = { frame: 0, state: createGame(seed, mode, rules) };
+  const cached = cache.current;
+  if (
+    cached &&
+    cached.seed === seed &&
+    cached.rules === rules &&
+    cached.point.state.mode === mode &&
+    cached.byFrame === byFrame &&
+    cached.point.frame <= frame
+  ) {
+    start = cached.point;
+  }
+  const point = advance(start, frame, byFrame, 1000 / fps);
+  cache.current = { seed, rules, byFrame, point };
+
+  const { board, piece, queue, holdType, holdUsed, score, lines, level, status, elapsedMs, endReason } =
+    point.state;
+  const rows = point.state.rules.boardHeight;
+  const cols = point.state.rules.boardWidth;
+  const cellSize = Math.floor(Math.min((width - 190) / cols, (height - 150) / rows));
+  const theme = THEMES[themeId];
+  const { colors } = theme;
+  const statLabel: React.CSSProperties = { fontSize: 15, color: colors.text, opacity: 0.7 };
+  const statValue: React.CSSProperties = { fontSize: 30, color: colors.accent, fontWeight: 800 };
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      <AbsoluteFill
+        style={{
+          background: colors.background,
+          fontFamily: theme.font,
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 18,
+        }}
+      >
+        <div style={{ display: "flex", gap: 36, alignItems: "flex-end" }}>
+          <span style={{ ...statValue, fontSize: 40, letterSpacing: 1.2 }}>TETRIS</span>
+          <div>
+            <div style={statLabel}>Score</div>
+            <div style={statValue}>{score}</div>
+          </div>
+          <div>
+            <div style={statLabel}>Level</div>
+            <div style={{ ...statValue, color: colors.primary }}>{level + 1}</div>
+          </div>
+          <div>
+            <div style={statLabel}>Lines</div>
+            <div style={statValue}>{lines}</div>
+          </div>
+          <div>
+            <div style={statLabel}>{getMode(mode).name}</div>
+            <div style={{ ...statValue, fontVariantNumeric: "tabular-nums" }}>
+              {formatDuration(getModeClock(getMode(mode), elapsedMs))}
+            </div>
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 18, alignItems: "flex-start" }}>
+          <div
+            style={{
+              position: "relative",
+              background: theme.board.background,
+              border: `4px solid ${colors.primary}`,
+              borderRadius: 21,
+              padding: 10,
+            }}
+          >
+            <BoardView board={board} piece={piece} cellSize={cellSize} hiddenRows={rules.bufferRows} />
+            {status === "gameover" && (
+              <AbsoluteFill
+                style={{
+                  alignItems: "center",
+                  justifyContent: "center",
+                  background: colors.scrim,
+                  borderRadius: 21,
+                  color: colors.primary,
+                  fontSize: 54,
+                  fontWeight: 900,
+                }}
+              >
+                {getEndTitle(endReason)}
+              </AbsoluteFill>
+            )}
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 8 }}>
+            <div style={statLabel}>HOLD</div>
+            <NextPiecePreview pieceType={holdType} cellSize={24} dimmed={holdUsed} />
+            <div style={{ ...statLabel, marginTop: 12 }}>NEXT</div>
+            {queue.slice(0, 3).map((type, i) => (
+              <NextPiecePreview key={i} pieceType={type} cellSize={i === 0 ? 24 : 18} />
+            ))}
+          </div>
+        </div>
+        {audio.music > 0 &&
+          musicClips.map(({ from, to, bpm, startFrom }) => (
+            <Sequence key={`music-${from}`} from={from} durationInFrames={to - from} layout="none">
+              <Audio src={getMusicWav(bpm)} loop startFrom={startFrom} volume={audio.music} />
+            </Sequence>
+          ))}
+        {audio.effects > 0 &&
+          cues.effects.map(({ frame: cueFrame, sound }, i) => (
+            <Sequence
+              key={`${sound}-${i}`}
+              from={cueFrame}
+              durationInFrames={Math.ceil(getSoundLength(sound) * fps) + 1}
+              layout="none"
+            >
+              <Audio src={getSoundWav(sound)} volume={audio.effects} />
+            </Sequence>
+          ))}
+      </AbsoluteFill>
+    </ThemeContext.Provider>
+  );
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { describePiece, describeStep } from "./announce";
+import { GameAction, GameState, createGame, step } from "./game";
+
+function describeAction(state: GameState, action: GameAction) {
+  return describeStep(state, step(state, action));
+}
+
+describe("describeStep", () => {
+  const game = createGame(1);
+
+  it("stays quiet for moves and rotations", () => {
+    expect(describeAction(game, { type: "moveLeft" })).toBeNull();
+    expect(describeAction(game, { type: "rotate", direction: "cw" })).toBeNull();
+    expect(describeAction(game, { type: "softDrop" })).toBeNull();
+  });
+
+  it("names the next piece after a lock", () => {
+    const next = step(game, { type: "hardDrop" });
+    expect(describeStep(game, next)).toBe(`${describePiece(next.piece!)}.`);
+  });
+
+  it("reports a hold", () => {
+    expect(describeAction(game, { type: "hold" })).toMatch(new RegExp(`^Holding ${game.piece!.type}\\. `));
+  });
+
+  it("reports pausing and the end of the game", () => {
+    expect(describeAction(game, { type: "pause" })).toBe("Paused.");
+    const over = { ...game, status: "gameover" as const, endReason: "topOut" as const };
+    expect(describeStep(game, over)).toBe("Game over. Score 0, 0 lines.");
+  });
+});
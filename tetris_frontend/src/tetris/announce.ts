@@ -0,0 +1,97 @@
+//
+// Spoken descriptions of the game for screen readers: what changed between
+// two states, and a summary of the board on request.
+//
+
+import { getColumnHeights } from "./engine";
+import { GameState } from "./game";
+import { GameEndReason } from "./modes";
+import { PieceState, RotationState } from "./types";
+
+const ROTATION_NAMES: Record<RotationState, string> = {
+  0: "flat",
+  1: "turned right",
+  2: "upside down",
+  3: "turned left",
+};
+
+const END_MESSAGES: Record<GameEndReason, string> = {
+  topOut: "Game over.",
+  goal: "Goal complete.",
+  timeUp: "Time up.",
+  quit: "Game ended.",
+};
+
+// "columns 4 to 6", 1-based from the left.
+function describeColumns(piece: PieceState): string {
+  let left = Infinity;
+  let right = -Infinity;
+  piece.shape.forEach((row) => {
+    row.forEach((cell, dx) => {
+      if (!cell) return;
+      left = Math.min(left, piece.pos.x + dx + 1);
+      right = Math.max(right, piece.pos.x + dx + 1);
+    });
+  });
+  return left === right ? `column ${left}` : `columns ${left} to ${right}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * The active piece, e.g. "T piece, flat, columns 4 to 6".
+ */
+export function describePiece(piece: PieceState): string {
+  return `${piece.type} piece, ${ROTATION_NAMES[piece.rotation]}, ${describeColumns(piece)}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * What a screen reader should say about the change from `prev` to `next`:
+ * spawns, holds, line clears and T-spins, level-ups, pausing and the end of
+ * the game. Null otherwise; moves and rotations are left to describeBoard,
+ * so holding a key does not flood the live region.
+ */
+export function describeStep(prev: GameState, next: GameState): string | null {
+  const parts: string[] = [];
+  const lock = next.lastLock;
+  const locked = lock !== null && lock !== prev.lastLock;
+  if (locked && lock.clearedRows.length > 0) {
+    const count = lock.clearedRows.length;
+    const labels = next.lastClear ? next.lastClear.labels : [];
+    const headline = labels.length > 0 ? labels[0].toLowerCase() : "";
+    parts.push(`${headline ? `${headline}, ` : ""}${count} ${count === 1 ? "line" : "lines"} cleared, ${next.lines} total.`);
+  } else if (locked && next.lastClear) {
+    // A T-spin without lines.
+    parts.push(`${next.lastClear.labels[0].toLowerCase()}.`);
+  }
+  if (locked && lock.levelUp !== null) parts.push(`Level ${lock.levelUp + 1}.`);
+
+  if (prev.status !== "gameover" && next.status === "gameover") {
+    parts.push(`${END_MESSAGES[next.endReason ?? "topOut"]} Score ${next.score}, ${next.lines} lines.`);
+    return parts.join(" ");
+  }
+  if (prev.status !== "paused" && next.status === "paused") return [...parts, "Paused."].join(" ");
+  if (prev.status === "paused" && next.status === "running") parts.push("Resumed.");
+
+  const after = next.piece;
+  if (after && !prev.holdUsed && next.holdUsed) parts.push(`Holding ${next.holdType}. ${describePiece(after)}.`);
+  else if (after && (locked || !prev.piece)) parts.push(`${describePiece(after)}.`);
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * A summary of the board: column heights left to right, the tallest stack
+ * against the visible height, and the active and held pieces.
+ */
+export function describeBoard(state: GameState): string {
+  const heights = getColumnHeights(state.board);
+  const parts = [
+    `Column heights, left to right: ${heights.join(", ")}.`,
+    `Tallest ${Math.max(...heights)} of ${state.rules.boardHeight} rows.`,
+  ];
+  if (state.piece) parts.push(`Current: ${describePiece(state.piece)}.`);
+  parts.push(state.holdType ? `Holding ${state.holdType}.` : "Nothing held.");
+  if (state.queue.length > 0) parts.push(`Next ${state.queue[0]}.`);
+  return parts.join(" ");
+}
@@ -0,0 +1,166 @@
+/* global AudioContext, AudioBuffer, AudioBufferSourceNode, GainNode */
+//
+// Plays the sounds from sounds.ts through the Web Audio API: effects on
+// demand, and the background track as a loop whose tempo follows the level.
+// Does nothing where Web Audio is unavailable.
+//
+
+import { z } from "zod";
+import { readStored, writeStored } from "./storage";
+import {
+  MUSIC_BARS,
+  SAMPLE_RATE,
+  SOUNDS,
+  SoundId,
+  getMusicLoop,
+  getMusicTempo,
+  getSoundLength,
+  renderTones,
+} from "./sounds";
+
+const AUDIO_STORAGE_KEY = "tetris.audio";
+
+export const audioSettingsSchema = z.object({
+  // Volumes from 0 (muted) to 1.
+  music: z.number().min(0).max(1),
+  effects: z.number().min(0).max(1),
+});
+
+// PUBLIC_INTERFACE
+export type AudioSettings = z.infer<typeof audioSettingsSchema>;
+
+export const DEFAULT_AUDIO: AudioSettings = { music: 0.5, effects: 0.7 };
+
+// PUBLIC_INTERFACE
+export type AudioEngine = {
+  play: (sound: SoundId) => void;
+  // Runs the background track at `level`'s tempo, or stops it for null.
+  setMusic: (level: number | null) => void;
+  setVolumes: (settings: AudioSettings) => void;
+  dispose: () => void;
+};
+
+type Loop = { source: AudioBufferSourceNode; bpm: number; startedAt: number; length: number };
+
+function createContext(): AudioContext | null {
+  const Context =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  try {
+    return Context ? new Context() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Creates the player. The audio context is made on first use, which should
+ * follow a user gesture so the browser lets it start.
+ */
+export function createAudioEngine(settings: AudioSettings = DEFAULT_AUDIO): AudioEngine {
+  let volumes = settings;
+  let graph: { context: AudioContext; music: GainNode; effects: GainNode } | null = null;
+  let unavailable = false;
+  const buffers = new Map<string, AudioBuffer>();
+  let loop: Loop | null = null;
+
+  const getGraph = () => {
+    if (!graph && !unavailable) {
+      const context = createContext();
+      if (!context) {
+        unavailable = true;
+        return null;
+      }
+      const music = context.createGain();
+      const effects = context.createGain();
+      music.gain.value = volumes.music;
+      effects.gain.value = volumes.effects;
+      music.connect(context.destination);
+      effects.connect(context.destination);
+      graph = { context, music, effects };
+    }
+    if (graph && graph.context.state === "suspended") graph.context.resume().catch(() => undefined);
+    return graph;
+  };
+
+  // Sounds are rendered once and then replayed from the cache.
+  const getBuffer = (context: AudioContext, key: string, render: () => Float32Array) => {
+    let buffer = buffers.get(key);
+    if (!buffer) {
+      const samples = render();
+      buffer = context.createBuffer(1, samples.length, SAMPLE_RATE);
+      buffer.getChannelData(0).set(samples);
+      buffers.set(key, buffer);
+    }
+    return buffer;
+  };
+
+  const stopLoop = (when?: number) => {
+    if (!loop) return;
+    try {
+      loop.source.stop(when);
+    } catch {
+      // Already stopped.
+    }
+    loop = null;
+  };
+
+  return {
+    play: (sound) => {
+      const current = getGraph();
+      if (!current || volumes.effects === 0) return;
+      const buffer = getBuffer(current.context, sound, () => renderTones(SOUNDS[sound], getSoundLength(sound)));
+      const source = current.context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(current.effects);
+      source.start();
+    },
+    setMusic: (level) => {
+      if (level === null) return stopLoop();
+      const bpm = getMusicTempo(level);
+      if (loop && loop.bpm === bpm) return;
+      const current = getGraph();
+      if (!current) return;
+      const { context } = current;
+      const { tones, length } = getMusicLoop(bpm);
+      const source = context.createBufferSource();
+      source.buffer = getBuffer(context, `music-${bpm}`, () => renderTones(tones, length));
+      source.loop = true;
+      source.connect(current.music);
+      // A tempo change waits for the next bar and carries on from there.
+      let when = context.currentTime;
+      let offset = 0;
+      if (loop) {
+        const bar = loop.length / MUSIC_BARS;
+        const bars = Math.ceil((when - loop.startedAt) / bar);
+        when = loop.startedAt + bars * bar;
+        offset = ((bars % MUSIC_BARS) * length) / MUSIC_BARS;
+        stopLoop(when);
+      }
+      source.start(when, offset);
+      loop = { source, bpm, startedAt: when - offset, length };
+    },
+    setVolumes: (next) => {
+      volumes = next;
+      if (!graph) return;
+      graph.music.gain.value = next.music;
+      graph.effects.gain.value = next.effects;
+    },
+    dispose: () => {
+      stopLoop();
+      if (graph) graph.context.close().catch(() => undefined);
+      graph = null;
+      buffers.clear();
+    },
+  };
+}
+
+// PUBLIC_INTERFACE
+export function loadAudioSettings(): AudioSettings | null {
+  return readStored(AUDIO_STORAGE_KEY, audioSettingsSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveAudioSettings(settings: AudioSettings): void {
+  writeStored(AUDIO_STORAGE_KEY, settings);
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_KEY_BINDINGS,
+  bindInput,
+  findActionForKey,
+  findConflicts,
+  loadKeyBindings,
+  unbindInput,
+} from "./bindings";
+
+// An in-memory localStorage holding `items`.
+function stubStorage(items: Record<string, string>) {
+  vi.stubGlobal("window", {
+    localStorage: {
+      getItem: (key: string) => (key in items ? items[key] : null),
+      setItem: (key: string, value: string) => {
+        items[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete items[key];
+      },
+    },
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("key bindings", () => {
+  it("finds the other actions that use a key", () => {
+    expect(findConflicts(DEFAULT_KEY_BINDINGS, "z", "hold")).toEqual(["rotateCCW"]);
+    expect(findConflicts(DEFAULT_KEY_BINDINGS, "z", "rotateCCW")).toEqual([]);
+    expect(findConflicts(DEFAULT_KEY_BINDINGS, "m", "hold")).toEqual([]);
+  });
+
+  it("moves a rebound key away from its old action", () => {
+    const next = bindInput(DEFAULT_KEY_BINDINGS, "hold", "z");
+    expect(next.hold).toEqual(["c", "Shift", "z"]);
+    expect(next.rotateCCW).toEqual(["Control"]);
+    expect(findConflicts(next, "z", "hold")).toEqual([]);
+    expect(DEFAULT_KEY_BINDINGS.rotateCCW).toEqual(["z", "Control"]);
+  });
+
+  it("unbinds a key from one action", () => {
+    expect(unbindInput(DEFAULT_KEY_BINDINGS, "rotateCW", "w").rotateCW).toEqual(["ArrowUp", "x"]);
+  });
+
+  it("matches keys regardless of case and old key names", () => {
+    expect(findActionForKey(DEFAULT_KEY_BINDINGS, "A")).toBe("moveLeft");
+    expect(findActionForKey(DEFAULT_KEY_BINDINGS, "Spacebar")).toBe("hardDrop");
+    expect(findActionForKey(DEFAULT_KEY_BINDINGS, "m")).toBeNull();
+  });
+
+  it("loads stored bindings, filling in actions they lack", () => {
+    const { describeBoard, ...older } = { ...DEFAULT_KEY_BINDINGS, hold: ["h"] };
+    stubStorage({ "tetris.keyBindings": JSON.stringify(older) });
+    expect(loadKeyBindings()).toEqual({ ...older, describeBoard });
+  });
+
+  it("falls back to the defaults for missing or malformed bindings", () => {
+    stubStorage({});
+    expect(loadKeyBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+    stubStorage({ "tetris.keyBindings": JSON.stringify({ hold: "h" }) });
+    expect(loadKeyBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+    stubStorage({ "tetris.keyBindings": "{" });
+    expect(loadKeyBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+});
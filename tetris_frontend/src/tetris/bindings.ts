@@ -0,0 +1,160 @@
+//
+// Remappable controls: each action is bound to one or more keys.
+//
+
+import { z } from "zod";
+import { readStored, writeStored } from "./storage";
+
+const KEY_BINDINGS_STORAGE_KEY = "tetris.keyBindings";
+
+// PUBLIC_INTERFACE
+export type BindableAction =
+  | "moveLeft"
+  | "moveRight"
+  | "softDrop"
+  | "hardDrop"
+  | "rotateCW"
+  | "rotateCCW"
+  | "rotate180"
+  | "hold"
+  | "pause"
+  | "restart"
+  | "describeBoard";
+
+// Display order for the settings screen.
+export const BINDABLE_ACTIONS: BindableAction[] = [
+  "moveLeft",
+  "moveRight",
+  "softDrop",
+  "hardDrop",
+  "rotateCW",
+  "rotateCCW",
+  "rotate180",
+  "hold",
+  "pause",
+  "restart",
+  "describeBoard",
+];
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  moveLeft: "Move left",
+  moveRight: "Move right",
+  softDrop: "Soft drop",
+  hardDrop: "Hard drop",
+  rotateCW: "Rotate clockwise",
+  rotateCCW: "Rotate counter-clockwise",
+  rotate180: "Rotate 180°",
+  hold: "Hold",
+  pause: "Pause",
+  restart: "Restart",
+  describeBoard: "Describe board",
+};
+
+// PUBLIC_INTERFACE
+export type KeyBindings = Bindings<string>;
+
+// Keys are stored as normalized KeyboardEvent.key values (see normalizeKey).
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ["ArrowLeft", "a"],
+  moveRight: ["ArrowRight", "d"],
+  softDrop: ["ArrowDown", "s"],
+  hardDrop: [" "],
+  rotateCW: ["ArrowUp", "w", "x"],
+  rotateCCW: ["z", "Control"],
+  rotate180: ["q"],
+  hold: ["c", "Shift"],
+  pause: ["p"],
+  restart: ["r"],
+  describeBoard: ["b"],
+};
+
+const keyBindingsSchema = z.object(
+  BINDABLE_ACTIONS.reduce(
+    // Actions added since the bindings were saved get their default keys.
+    (shape, action) => ({ ...shape, [action]: z.array(z.string()).default(DEFAULT_KEY_BINDINGS[action]) }),
+    {} as Record<BindableAction, z.ZodDefault<z.ZodArray<z.ZodString>>>
+  )
+);
+
+/**
+ * PUBLIC_INTERFACE
+ * Normalizes a KeyboardEvent.key so bindings ignore Caps Lock/Shift on
+ * letters, and old browsers' "Spacebar" matches " ".
+ */
+export function normalizeKey(key: string): string {
+  if (key === "Spacebar") return " ";
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+// PUBLIC_INTERFACE
+export function formatKey(key: string): string {
+  if (KEY_NAMES[key]) return KEY_NAMES[key];
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+// PUBLIC_INTERFACE
+export type Bindings<T> = Record<BindableAction, T[]>;
+
+// PUBLIC_INTERFACE
+export function findActionFor<T>(bindings: Bindings<T>, input: T): BindableAction | null {
+  for (const action of BINDABLE_ACTIONS) {
+    if (bindings[action].indexOf(input) !== -1) return action;
+  }
+  return null;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Actions other than `action` that already use `input`.
+ */
+export function findConflicts<T>(
+  bindings: Bindings<T>,
+  input: T,
+  action: BindableAction
+): BindableAction[] {
+  return BINDABLE_ACTIONS.filter(
+    (other) => other !== action && bindings[other].indexOf(input) !== -1
+  );
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Binds `input` to `action`, removing it from any other action so an input
+ * always maps to exactly one action.
+ */
+export function bindInput<T>(bindings: Bindings<T>, action: BindableAction, input: T): Bindings<T> {
+  const next = { ...bindings };
+  for (const other of BINDABLE_ACTIONS) {
+    next[other] = bindings[other].filter((i) => i !== input);
+  }
+  next[action] = [...next[action], input];
+  return next;
+}
+
+// PUBLIC_INTERFACE
+export function unbindInput<T>(bindings: Bindings<T>, action: BindableAction, input: T): Bindings<T> {
+  return { ...bindings, [action]: bindings[action].filter((i) => i !== input) };
+}
+
+// PUBLIC_INTERFACE
+export function findActionForKey(bindings: KeyBindings, key: string): BindableAction | null {
+  return findActionFor(bindings, normalizeKey(key));
+}
+
+// PUBLIC_INTERFACE
+export function loadKeyBindings(): KeyBindings {
+  return readStored(KEY_BINDINGS_STORAGE_KEY, keyBindingsSchema) ?? DEFAULT_KEY_BINDINGS;
+}
+
+// PUBLIC_INTERFACE
+export function saveKeyBindings(bindings: KeyBindings): void {
+  writeStored(KEY_BINDINGS_STORAGE_KEY, bindings);
+}
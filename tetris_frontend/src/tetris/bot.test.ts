@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createBotPlayer, findBestPlacement } from "./bot";
+import { FRAME_MS, GameState, createGame, step } from "./game";
+
+// Lets the bot play `pieces` pieces on seed 7, one action per frame as
+// autoplay does. Every action must be legal, i.e. change the game.
+function play(pieces: number): GameState {
+  const bot = createBotPlayer();
+  let state = createGame(7);
+  let locks = 0;
+  while (locks < pieces && state.status === "running") {
+    const action = bot.nextAction(state);
+    expect(action).not.toBeNull();
+    const next = step(state, action!);
+    expect(next).not.toBe(state);
+    if (next.lastLock !== state.lastLock) locks++;
+    state = step(next, { type: "tick", ms: FRAME_MS });
+  }
+  return state;
+}
+
+describe("bot", () => {
+  it("plans a placement that ends with a hard drop", () => {
+    const plan = findBestPlacement(createGame(7));
+    expect(plan!.actions[plan!.actions.length - 1]).toEqual({ type: "hardDrop" });
+  });
+
+  it("clears lines and survives on a fixed seed", () => {
+    const state = play(40);
+    expect(state.status).toBe("running");
+    expect(state.lines).toBeGreaterThanOrEqual(10);
+  });
+});
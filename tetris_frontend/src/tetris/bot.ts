@@ -0,0 +1,174 @@
+//
+// Heuristic bot: tries every reachable placement of the current (and held)
+// piece, scores the resulting board and plays the best one through the same
+// actions a player would use.
+//
+
+import { z } from "zod";
+import { Board } from "./types";
+import { clearRows, getColumnHeights, mergeBoard } from "./engine";
+import { GameState, getDropY, step } from "./game";
+import { PlayerAction } from "./timeline";
+import { readStored, writeStored } from "./storage";
+
+const BOT_STORAGE_KEY = "tetris.bot";
+
+// PUBLIC_INTERFACE
+export type BotWeights = {
+  aggregateHeight: number;
+  holes: number;
+  bumpiness: number;
+  linesCleared: number;
+};
+
+// Well-known weights tuned by a genetic search for this feature set.
+export const DEFAULT_BOT_WEIGHTS: BotWeights = {
+  aggregateHeight: -0.510066,
+  holes: -0.35663,
+  bumpiness: -0.184483,
+  linesCleared: 0.760666,
+};
+
+export const botSettingsSchema = z.object({
+  // Actions the bot performs per second while autoplaying.
+  actionsPerSecond: z.number().positive(),
+});
+
+// PUBLIC_INTERFACE
+export type BotSettings = z.infer<typeof botSettingsSchema>;
+
+export const DEFAULT_BOT_SETTINGS: BotSettings = { actionsPerSecond: 20 };
+
+// PUBLIC_INTERFACE
+export type BotPlan = {
+  // Ends with a hard drop.
+  actions: PlayerAction[];
+  score: number;
+};
+
+// Shortest way to reach each rotation state from spawn.
+const ROTATIONS: PlayerAction[][] = [
+  [],
+  [{ type: "rotate", direction: "cw" }],
+  [{ type: "rotate", direction: "180" }],
+  [{ type: "rotate", direction: "ccw" }],
+];
+
+function countHoles(board: Board): number {
+  let holes = 0;
+  for (let x = 0; x < board[0].length; x++) {
+    let covered = false;
+    for (let y = 0; y < board.length; y++) {
+      if (board[y][x] !== null) covered = true;
+      else if (covered) holes++;
+    }
+  }
+  return holes;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Scores a board after a placement: higher is better.
+ */
+export function evaluateBoard(board: Board, linesCleared: number, weights: BotWeights): number {
+  const heights = getColumnHeights(board);
+  let bumpiness = 0;
+  for (let x = 0; x + 1 < heights.length; x++) {
+    bumpiness += Math.abs(heights[x] - heights[x + 1]);
+  }
+  const aggregateHeight = heights.reduce((sum, h) => sum + h, 0);
+  return (
+    weights.aggregateHeight * aggregateHeight +
+    weights.holes * countHoles(board) +
+    weights.bumpiness * bumpiness +
+    weights.linesCleared * linesCleared
+  );
+}
+
+// Applies `actions` in order; null if any of them had no effect, which
+// means the placement is not reachable that way.
+function applyAll(state: GameState, actions: PlayerAction[]): GameState | null {
+  let current = state;
+  for (const action of actions) {
+    const next = step(current, action);
+    if (next === current) return null;
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Finds the best placement for the active piece, also considering a swap
+ * with the hold slot. Candidates are reached by running rotations and shifts
+ * through the reducer, so kicks and walls behave exactly as in play.
+ */
+export function findBestPlacement(
+  state: GameState,
+  weights: BotWeights = DEFAULT_BOT_WEIGHTS
+): BotPlan | null {
+  if (state.status !== "running" || !state.piece) return null;
+  const width = state.board[0].length;
+  let best: BotPlan | null = null;
+
+  for (const useHold of state.holdUsed ? [false] : [false, true]) {
+    const prefix: PlayerAction[] = useHold ? [{ type: "hold" }] : [];
+    for (const rotation of ROTATIONS) {
+      for (let shift = -width; shift <= width; shift++) {
+        const moves: PlayerAction[] = [];
+        for (let i = 0; i < Math.abs(shift); i++) {
+          moves.push({ type: shift < 0 ? "moveLeft" : "moveRight" });
+        }
+        const actions = [...prefix, ...rotation, ...moves];
+        const placed = applyAll(state, actions);
+        const piece = placed && placed.piece;
+        if (!placed || !piece) continue;
+        const y = getDropY(placed.board, piece.shape, piece.pos);
+        const merged = mergeBoard(placed.board, piece.shape, { x: piece.pos.x, y }, piece.type);
+        const { board, cleared } = clearRows(merged);
+        const score = evaluateBoard(board, cleared, weights);
+        // Prefer fewer actions between equally good placements.
+        if (!best || score > best.score || (score === best.score && actions.length + 1 < best.actions.length)) {
+          best = { actions: [...actions, { type: "hardDrop" }], score };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// PUBLIC_INTERFACE
+export type BotPlayer = {
+  // The next action to play for `state`, planning a new placement when the
+  // previous one is done.
+  nextAction: (state: GameState) => PlayerAction | null;
+  // Drops the current plan, e.g. after the player interfered.
+  reset: () => void;
+};
+
+// PUBLIC_INTERFACE
+export function createBotPlayer(weights: BotWeights = DEFAULT_BOT_WEIGHTS): BotPlayer {
+  let plan: PlayerAction[] = [];
+  return {
+    nextAction: (state) => {
+      if (plan.length === 0) {
+        const best = findBestPlacement(state, weights);
+        plan = best ? best.actions : [];
+      }
+      return plan.shift() ?? null;
+    },
+    reset: () => {
+      plan = [];
+    },
+  };
+}
+
+// PUBLIC_INTERFACE
+export function loadBotSettings(): BotSettings | null {
+  return readStored(BOT_STORAGE_KEY, botSettingsSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveBotSettings(settings: BotSettings): void {
+  writeStored(BOT_STORAGE_KEY, settings);
+}
@@ -1,4 +1,4 @@
-import { Board, Tetromino, Position, TetrominoType } from "./types";
+import { Board, Cell, Tetromino, Position, TetrominoType } from "./types";
 
 // Tetromino definitions
 const TETROMINOS: Record<TetrominoType, Tetromino> = {
@@ -9,14 +9,12 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [0, 0, 0, 0],
       [0, 0, 0, 0],
     ],
-    color: "#2196F3",
   },
   O: {
     shape: [
       [1, 1],
       [1, 1],
     ],
-    color: "#FFEB3B",
   },
   T: {
     shape: [
@@ -24,7 +22,6 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [1, 1, 1],
       [0, 0, 0],
     ],
-    color: "#9C27B0",
   },
   S: {
     shape: [
@@ -32,7 +29,6 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [1, 1, 0],
       [0, 0, 0],
     ],
-    color: "#43A047",
   },
   Z: {
     shape: [
@@ -40,7 +36,6 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [0, 1, 1],
       [0, 0, 0],
     ],
-    color: "#E53935",
   },
   J: {
     shape: [
@@ -48,7 +43,6 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [1, 1, 1],
       [0, 0, 0],
     ],
-    color: "#1565C0",
   },
   L: {
     shape: [
@@ -56,47 +50,16 @@ const TETROMINOS: Record<TetrominoType, Tetromino> = {
       [1, 1, 1],
       [0, 0, 0],
     ],
-    color: "#FFA726",
   },
 };
 
-const TETROMINO_SEQUENCE: TetrominoType[] = ["I", "O", "T", "S", "Z", "J", "L"];
-
 export function getTetromino(type: TetrominoType): Tetromino {
   return TETROMINOS[type];
 }
 
-/**
- * PUBLIC_INTERFACE
- * Returns a function that provides the next random TetrominoType using the "bag" system.
- * This avoids using the global window and instead manages the bag per consumer.
- */
-export function createBagRNG(rng: () => number) {
-  let bag: TetrominoType[] = [];
-  function next() {
-    if (bag.length === 0) {
-      bag = shuffle([...TETROMINO_SEQUENCE], rng);
-    }
-    return bag.pop()!;
-  }
-  return next;
-}
-
-function shuffle(array: TetrominoType[], rng: () => number): TetrominoType[] {
-  // Fisher-Yates shuffle
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
-  }
-  return array;
-}
-
 export function createEmptyBoard(rows = 20, cols = 10): Board {
   return Array.from({ length: rows }, () =>
-    Array.from({ length: cols }, () => ({
-      filled: false,
-      color: "transparent",
-    }))
+    Array.from({ length: cols }, (): Cell => null)
   );
 }
 
@@ -125,7 +88,7 @@ export function isValidPosition(
         if (bx < 0 || bx >= board[0].length || by < 0 || by >= board.length)
           return false;
         // Collides with board filled cell?
-        if (board[by][bx].filled) return false;
+        if (board[by][bx] !== null) return false;
       }
     }
   }
@@ -136,19 +99,17 @@ export function mergeBoard(
   board: Board,
   shape: number[][],
   pos: Position,
-  color: string
+  type: TetrominoType
 ): Board {
   // Copy the board and apply shape at pos
-  const newBoard: Board = board.map((row) =>
-    row.map((cell) => ({ ...cell }))
-  );
+  const newBoard: Board = board.map((row) => [...row]);
   for (let y = 0; y < shape.length; y++) {
     for (let x = 0; x < shape[y].length; x++) {
       if (shape[y][x]) {
         const bx = pos.x + x;
         const by = pos.y + y;
         if (by >= 0 && by < newBoard.length && bx >= 0 && bx < newBoard[0].length) {
-          newBoard[by][bx] = { filled: true, color };
+          newBoard[by][bx] = type;
         }
       }
     }
@@ -163,7 +124,7 @@ export function clearRows(board: Board): { board: Board; cleared: number } {
   let cleared = 0;
   const newBoard: Board = [];
   for (let y = 0; y < rows; y++) {
-    const isFull = board[y].every((cell) => cell.filled);
+    const isFull = board[y].every((cell) => cell !== null);
     if (!isFull) {
       newBoard.push(board[y]);
     } else {
@@ -172,25 +133,42 @@ export function clearRows(board: Board): { board: Board; cleared: number } {
   }
   while (newBoard.length < rows) {
     // Add empty row at the top
-    newBoard.unshift(
-      Array.from({ length: cols }, () => ({
-        filled: false,
-        color: "transparent",
-      }))
-    );
+    newBoard.unshift(Array.from({ length: cols }, (): Cell => null));
   }
   return { board: newBoard, cleared };
 }
 
+// Stack height of each column: rows from the floor up to its top block.
+// PUBLIC_INTERFACE
+export function getColumnHeights(board: Board): number[] {
+  const rows = board.length;
+  return board[0].map((_, x) => {
+    for (let y = 0; y < rows; y++) {
+      if (board[y][x] !== null) return rows - y;
+    }
+    return 0;
+  });
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Advances a Mulberry32 state by one step without hidden mutation.
+ * Returns the random value in [0, 1) and the state to pass next time.
+ */
+export function mulberry32Step(state: number): { value: number; state: number } {
+  const a = ((state | 0) + 0x6d2b79f5) | 0;
+  let t = Math.imul(a ^ (a >>> 15), 1 | a);
+  t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: a };
+}
+
 export function randomSeededRNG(seed: number) {
   // Mulberry32 PRNG, for deterministic gameplay/debug
   let a = seed;
   return function () {
-    a |= 0;
-    a = (a + 0x6d2b79f5) | 0;
-    let t = Math.imul(a ^ (a >>> 15), 1 | a);
-    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    const r = mulberry32Step(a);
+    a = r.state;
+    return r.value;
   };
 }
 
@@ -201,4 +179,3 @@ declare global {
     __tetrisBag?: TetrominoType[];
   }
 }
-
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { FRAME_MS, GameAction, GameState, createGame, step } from "./game";
+import { DEFAULT_RULES } from "./rules";
+import { Board } from "./types";
+
+const TICK: GameAction = { type: "tick", ms: FRAME_MS };
+const LOCK_FRAMES = Math.ceil(DEFAULT_RULES.lockDelayMs / FRAME_MS);
+
+// Fills the bottom rows of `state`'s board, leaving `gap` columns open.
+function withFilledRows(state: GameState, rows: number, gap: number[] = []): GameState {
+  const board: Board = state.board.map((row, y) =>
+    y < state.board.length - rows ? row : row.map((_, x) => (gap.indexOf(x) === -1 ? "O" : null))
+  );
+  return { ...state, board };
+}
+
+// Soft-drops the active piece onto the stack without locking it.
+function land(state: GameState): GameState {
+  let next = state;
+  for (let moved = step(next, { type: "softDrop" }); moved !== next; moved = step(next, { type: "softDrop" })) {
+    next = moved;
+  }
+  return next;
+}
+
+// Runs frames, applying `input(frame)` first in each, until the piece locks.
+function framesUntilLock(state: GameState, input: (frame: number) => GameAction | null, limit = 2000): number {
+  let next = state;
+  for (let frame = 0; frame < limit; frame++) {
+    const action = input(frame);
+    if (action) next = step(next, action);
+    next = step(next, TICK);
+    if (next.lastLock !== state.lastLock) return frame + 1;
+  }
+  return Infinity;
+}
+
+describe("step", () => {
+  const game = createGame(1);
+
+  it("moves the piece and stops at the wall", () => {
+    let state = game;
+    for (let i = 0; i < 20; i++) state = step(state, { type: "moveLeft" });
+    expect(state.piece!.pos.x).toBeLessThan(game.piece!.pos.x);
+    expect(step(state, { type: "moveLeft" })).toBe(state);
+  });
+
+  it("hard drops, locks and deals the next piece", () => {
+    const dropped = step(game, { type: "hardDrop" });
+    expect(dropped.piece!.type).toBe(game.queue[0]);
+    expect(dropped.queue).toHaveLength(game.queue.length);
+    expect(dropped.board.some((row) => row.some((cell) => cell === game.piece!.type))).toBe(true);
+    expect(dropped.score).toBeGreaterThan(0);
+  });
+
+  it("clears a full row", () => {
+    const ready = withFilledRows({ ...game, piece: { ...game.piece!, type: "I", shape: [[1, 1, 1, 1]], pos: { x: 3, y: 0 } } }, 1, [3, 4, 5, 6]);
+    const cleared = step(ready, { type: "hardDrop" });
+    expect(cleared.lines).toBe(1);
+    expect(cleared.board[cleared.board.length - 1].every((cell) => cell === null)).toBe(true);
+  });
+
+  it("ignores input while paused", () => {
+    const paused = step(game, { type: "pause" });
+    expect(step(paused, { type: "hardDrop" })).toBe(paused);
+    expect(step(paused, { type: "resume" }).status).toBe("running");
+  });
+
+  it("ends the game when the next piece cannot spawn", () => {
+    const full = withFilledRows(game, game.board.length - 2, [0]);
+    expect(step(full, { type: "hardDrop" })).toMatchObject({ status: "gameover", endReason: "topOut" });
+  });
+});
+
+describe("lock delay", () => {
+  it("locks a resting piece after the delay", () => {
+    expect(framesUntilLock(land(createGame(1)), () => null)).toBe(LOCK_FRAMES);
+  });
+
+  it("restarts the timer on a move, up to the reset cap", () => {
+    const shuffle = (frame: number): GameAction | null =>
+      frame % 10 === 9 ? { type: frame % 20 === 9 ? "moveLeft" : "moveRight" } : null;
+    const frames = framesUntilLock(land(createGame(1)), shuffle);
+    expect(frames).toBeGreaterThan(LOCK_FRAMES);
+    expect(frames).toBeLessThanOrEqual((DEFAULT_RULES.maxLockResets + 1) * LOCK_FRAMES);
+  });
+
+  it("cannot be stalled by rotating the piece up and down", () => {
+    // Kicks lift the L off the stack and back; that must not give the
+    // resets back.
+    const stacked = land(step(createGame(5), { type: "hardDrop" }));
+    const spin = (frame: number): GameAction | null =>
+      frame % 10 === 9 ? { type: "rotate", direction: frame % 20 === 9 ? "cw" : "ccw" } : null;
+    expect(framesUntilLock(stacked, spin)).toBeLessThanOrEqual((DEFAULT_RULES.maxLockResets + 2) * LOCK_FRAMES);
+  });
+
+  it("does not spend a reset when gravity brings a kicked-up piece back down", () => {
+    let state = land(createGame(1));
+    for (let i = 0; i < 5; i++) state = step(state, TICK);
+    // As after a kick that lifted the piece by a row.
+    const piece = state.piece!;
+    state = { ...state, piece: { ...piece, pos: { ...piece.pos, y: piece.pos.y - 1 } } };
+    while (state.piece!.pos.y < piece.pos.y) state = step(state, TICK);
+    expect(state.lockResets).toBe(0);
+    expect(state.lockElapsed).toBeGreaterThan(0);
+  });
+});
+
+describe("spawning", () => {
+  it("ends Zen with a block-out when a piece cannot fit even on an empty board", () => {
+    // Outside the schema's bounds, as rules built in code may be.
+    const game = createGame(1, "zen", { ...DEFAULT_RULES, boardHeight: 4, spawnRow: 10 });
+    expect(game).toMatchObject({ status: "gameover", endReason: "topOut" });
+  });
+});
+
+describe("ending", () => {
+  it("lets the player end a Zen game, paused or not", () => {
+    const zen = step(createGame(1, "zen"), { type: "hardDrop" });
+    const ended = step(zen, { type: "end" });
+    expect(ended).toMatchObject({ status: "gameover", endReason: "quit", piece: null, score: zen.score });
+    expect(step(step(zen, { type: "pause" }), { type: "end" })).toMatchObject({ status: "gameover", endReason: "quit" });
+    expect(step(ended, { type: "end" })).toBe(ended);
+  });
+});
+
+describe("hold", () => {
+  const game = createGame(1);
+
+  it("stores the piece in an empty slot and deals the next one", () => {
+    const held = step(game, { type: "hold" });
+    expect(held.holdType).toBe(game.piece!.type);
+    expect(held.piece!.type).toBe(game.queue[0]);
+    expect(held.holdUsed).toBe(true);
+  });
+
+  it("swaps with the held piece, at the spawn position", () => {
+    const held = step(step(game, { type: "hold" }), { type: "hardDrop" });
+    const swapped = step(held, { type: "hold" });
+    expect(swapped.piece).toMatchObject({ type: game.piece!.type, pos: game.piece!.pos, rotation: 0 });
+    expect(swapped.holdType).toBe(held.piece!.type);
+  });
+
+  it("works once per piece until it locks", () => {
+    const held = step(game, { type: "hold" });
+    expect(step(held, { type: "hold" })).toBe(held);
+    expect(step(held, { type: "hardDrop" }).holdUsed).toBe(false);
+  });
+});
+
+describe("next queue", () => {
+  it("deals pieces in the order it shows them", () => {
+    let state = createGame(8);
+    // Few enough drops that the stack stays below the spawn.
+    for (let i = 0; i < 8; i++) {
+      const next = step(state, { type: "hardDrop" });
+      expect(next.piece!.type).toBe(state.queue[0]);
+      expect(next.queue.slice(0, -1)).toEqual(state.queue.slice(1));
+      state = next;
+    }
+  });
+});
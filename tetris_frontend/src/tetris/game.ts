@@ -0,0 +1,424 @@
+//
+// Headless game-state reducer. All gameplay rules live here so they can run
+// outside React (bots, replays, tests, video rendering).
+//
+
+import {
+  Board,
+  Cell,
+  GameStatus,
+  PieceState,
+  Position,
+  RotationDirection,
+  TetrominoType,
+} from "./types";
+import {
+  clearRows,
+  createEmptyBoard,
+  getTetromino,
+  isValidPosition,
+  mergeBoard,
+} from "./engine";
+import { tryRotate } from "./srs";
+import { GameEndReason, GameModeId, getMode } from "./modes";
+import { DEFAULT_RULES, GameRules } from "./rules";
+import { RandomizerId, fillQueue } from "./randomizer";
+import {
+  ClearEvent,
+  HARD_DROP_POINTS,
+  LastRotation,
+  SOFT_DROP_POINTS,
+  detectTSpin,
+  scoreLock,
+} from "./scoring";
+
+// How fast pieces fall (milliseconds) per level
+export const LEVEL_SPEEDS = [
+  800, 700, 600, 500, 400, 350, 300, 260, 220, 180,
+  150, 120, 100, 90, 80, 70, 60, 55, 50, 40,
+];
+
+// Upcoming pieces kept in the queue; the UI may show fewer.
+export const MAX_PREVIEW = 6;
+
+// Fixed simulation step; callers advance time in whole frames of this size.
+export const FRAME_MS = 1000 / 60;
+
+// PUBLIC_INTERFACE
+export type GameState = {
+  board: Board;
+  piece: PieceState | null;
+  // Upcoming pieces, always MAX_PREVIEW long; queue[0] spawns next.
+  queue: TetrominoType[];
+  holdType: TetrominoType | null;
+  // Hold may be used once per piece; cleared when a piece locks.
+  holdUsed: boolean;
+  // Randomizer in use, its memory (bag contents or piece history) and the
+  // Mulberry32 state.
+  randomizer: RandomizerId;
+  randomizerMemory: TetrominoType[];
+  rngState: number;
+  seed: number;
+  // Set when the player picked the seed, so the pieces could be known in
+  // advance.
+  customSeed: boolean;
+  mode: GameModeId;
+  score: number;
+  lines: number;
+  level: number;
+  status: GameStatus;
+  // Set when status becomes "gameover".
+  endReason: GameEndReason | null;
+  // Play time so far; only running ticks count.
+  elapsedMs: number;
+  rules: GameRules;
+  // Milliseconds accumulated towards the next gravity step.
+  gravityElapsed: number;
+  // Lock delay: time spent resting on the stack, resets used, and the lowest
+  // row the piece has reached (reaching a new one gives the resets back).
+  lockElapsed: number;
+  lockResets: number;
+  lowestY: number;
+  // Scoring chains: consecutive clearing locks (-1 = none) and whether the
+  // last line clear was a Tetris or T-spin.
+  combo: number;
+  backToBack: boolean;
+  // Set when the active piece's last successful manoeuvre was a rotation.
+  lastRotation: LastRotation | null;
+  // What the most recent lock scored, for pop-ups; null if nothing did.
+  lastClear: ClearEvent | null;
+  // The most recent lock, for effects; null until a piece has locked.
+  lastLock: LockEvent | null;
+};
+
+// PUBLIC_INTERFACE
+export type LockEvent = {
+  // Board cells the piece filled when it locked.
+  cells: Position[];
+  // Board rows (indices before the clear) that were full and removed, and
+  // their blocks, since the board no longer has them.
+  clearedRows: number[];
+  clearedCells: Cell[][];
+  // Rows the piece fell in the hard drop that locked it; 0 for other locks.
+  dropDistance: number;
+  // The level this lock reached, if it went up.
+  levelUp: number | null;
+};
+
+// PUBLIC_INTERFACE
+export type GameAction =
+  | { type: "moveLeft" }
+  | { type: "moveRight" }
+  | { type: "softDrop" }
+  | { type: "hardDrop" }
+  | { type: "hold" }
+  | { type: "rotate"; direction: RotationDirection }
+  | { type: "tick"; ms: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  // The player ends the game (Zen has no other way to finish).
+  | { type: "end" };
+
+export function getDropY(board: Board, shape: number[][], pos: Position): number {
+  let dropY = pos.y;
+  while (isValidPosition(board, shape, { x: pos.x, y: dropY + 1 })) {
+    dropY++;
+  }
+  return dropY;
+}
+
+export function getLevelByLines(linesCleared: number, startLevel = 0): number {
+  return Math.min(startLevel + Math.floor(linesCleared / 10), LEVEL_SPEEDS.length - 1);
+}
+
+export function getGravityMs(level: number): number {
+  return LEVEL_SPEEDS[level] ?? 40;
+}
+
+function createPiece(type: TetrominoType, rules: GameRules): PieceState {
+  const { shape } = getTetromino(type);
+  const centred = Math.floor((rules.boardWidth - shape[0].length) / 2);
+  // Keep the whole box on the board whatever column is configured.
+  const x = Math.min(rules.spawnColumn ?? centred, Math.max(rules.boardWidth - shape[0].length, 0));
+  return {
+    type,
+    shape: shape.map((row) => [...row]),
+    pos: { x, y: Math.max(rules.bufferRows + rules.spawnRow, 0) },
+    rotation: 0,
+  };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Creates a fresh game of `mode` for the given seed with the first piece
+ * already spawned. The same seed always produces the same piece sequence.
+ * `customSeed` marks a seed the player chose.
+ */
+export function createGame(
+  seed: number,
+  mode: GameModeId = "marathon",
+  rules: GameRules = DEFAULT_RULES,
+  customSeed = false
+): GameState {
+  const randomizer = rules.randomizer ?? getMode(mode).randomizer;
+  const dealt = fillQueue(randomizer, [], [], seed, MAX_PREVIEW + 1);
+  const board = createEmptyBoard(rules.bufferRows + rules.boardHeight, rules.boardWidth);
+  return activate({
+    board,
+    piece: null,
+    queue: dealt.queue.slice(1),
+    holdType: null,
+    holdUsed: false,
+    randomizer,
+    randomizerMemory: dealt.memory,
+    rngState: dealt.rngState,
+    seed,
+    customSeed,
+    mode,
+    score: 0,
+    lines: 0,
+    level: getMode(mode).startLevel,
+    status: "running",
+    endReason: null,
+    elapsedMs: 0,
+    rules,
+    gravityElapsed: 0,
+    lockElapsed: 0,
+    lockResets: 0,
+    lowestY: 0,
+    combo: -1,
+    backToBack: false,
+    lastRotation: null,
+    lastClear: null,
+    lastLock: null,
+  }, dealt.queue[0]);
+}
+
+// Makes a new piece of `type` active with fresh gravity and lock timers.
+// A spawn that overlaps the stack is a block-out.
+function activate(state: GameState, type: TetrominoType): GameState {
+  const piece = createPiece(type, state.rules);
+  const next: GameState = {
+    ...state,
+    piece,
+    gravityElapsed: 0,
+    lockElapsed: 0,
+    lockResets: 0,
+    lowestY: piece.pos.y,
+    lastRotation: null,
+  };
+  if (isValidPosition(state.board, piece.shape, piece.pos)) return next;
+  if (getMode(state.mode).topOut !== "clearBoard") return endByTopOut(next);
+  // Zen clears the board instead; a piece that cannot fit even then (rules
+  // from outside the schema) still ends the game.
+  const cleared = withEmptyBoard(next);
+  return isValidPosition(cleared.board, piece.shape, piece.pos) ? cleared : endByTopOut(next);
+}
+
+function withEmptyBoard(state: GameState): GameState {
+  const { bufferRows, boardHeight, boardWidth } = state.rules;
+  return { ...state, board: createEmptyBoard(bufferRows + boardHeight, boardWidth) };
+}
+
+function endByTopOut(state: GameState): GameState {
+  return { ...state, piece: null, status: "gameover", endReason: "topOut" };
+}
+
+// Lock-out: every block of the piece is in the hidden buffer.
+function isAboveVisible(piece: PieceState, bufferRows: number): boolean {
+  return piece.shape.every((row, dy) => row.every((cell) => !cell || piece.pos.y + dy < bufferRows));
+}
+
+// Takes the first queued piece as the active one and refills the queue.
+function spawnNext(state: GameState): GameState {
+  const [type, ...rest] = state.queue;
+  const dealt = fillQueue(state.randomizer, rest, state.randomizerMemory, state.rngState, MAX_PREVIEW);
+  return activate(
+    { ...state, queue: dealt.queue, randomizerMemory: dealt.memory, rngState: dealt.rngState },
+    type
+  );
+}
+
+function getPieceCells(piece: PieceState): Position[] {
+  const cells: Position[] = [];
+  piece.shape.forEach((row, dy) => {
+    row.forEach((cell, dx) => {
+      if (cell) cells.push({ x: piece.pos.x + dx, y: piece.pos.y + dy });
+    });
+  });
+  return cells;
+}
+
+// Merges the active piece into the board, clears rows, scores and spawns.
+// `dropDistance` is how far a hard drop moved the piece first.
+function lockPiece(state: GameState, dropDistance = 0): GameState {
+  const piece = state.piece;
+  if (!piece) return state;
+  const spin = detectTSpin(state.board, piece, state.lastRotation);
+  const merged = mergeBoard(state.board, piece.shape, piece.pos, piece.type);
+  const { board, cleared } = clearRows(merged);
+  const clearedRows: number[] = [];
+  merged.forEach((row, y) => {
+    if (row.every((cell) => cell !== null)) clearedRows.push(y);
+  });
+  const scored = scoreLock({
+    lines: cleared,
+    spin,
+    boardAfter: board,
+    level: state.level,
+    combo: state.combo,
+    backToBack: state.backToBack,
+  });
+  const mode = getMode(state.mode);
+  const lines = state.lines + cleared;
+  const level = mode.levelUp ? getLevelByLines(lines, mode.startLevel) : state.level;
+  const locked: GameState = {
+    ...state,
+    board,
+    score: state.score + (scored.event ? scored.event.points : 0),
+    lines,
+    level,
+    holdUsed: false,
+    combo: scored.combo,
+    backToBack: scored.backToBack,
+    lastClear: scored.event,
+    lastLock: {
+      cells: getPieceCells(piece),
+      clearedRows,
+      clearedCells: clearedRows.map((y) => merged[y]),
+      dropDistance,
+      levelUp: level > state.level ? level : null,
+    },
+  };
+  if (mode.lineGoal !== null && lines >= mode.lineGoal) {
+    return { ...locked, piece: null, status: "gameover", endReason: "goal" };
+  }
+  if (isAboveVisible(piece, state.rules.bufferRows)) {
+    return mode.topOut === "clearBoard" ? spawnNext(withEmptyBoard(locked)) : endByTopOut(locked);
+  }
+  return spawnNext(locked);
+}
+
+// Swaps the active piece with the held one, or stores it and spawns the next.
+function holdPiece(state: GameState): GameState {
+  const piece = state.piece;
+  if (!piece || state.holdUsed) return state;
+  if (state.holdType === null) {
+    return { ...spawnNext(state), holdType: piece.type, holdUsed: true };
+  }
+  return {
+    ...activate(state, state.holdType),
+    holdType: piece.type,
+    holdUsed: true,
+  };
+}
+
+function isGrounded(state: GameState): boolean {
+  const piece = state.piece!;
+  return !isValidPosition(state.board, piece.shape, { x: piece.pos.x, y: piece.pos.y + 1 });
+}
+
+// Replaces the active piece after a successful move or rotation, applying
+// the move-reset rule to the lock timer. `rotation` is set for rotations so
+// T-spins can be recognised on lock. Gravity passes `byPlayer` false: its
+// falls never use up a reset.
+function placePiece(
+  state: GameState,
+  piece: PieceState,
+  rotation: LastRotation | null = null,
+  byPlayer = true
+): GameState {
+  const moved = { ...state, piece, lastRotation: rotation };
+  if (piece.pos.y > state.lowestY) {
+    return { ...moved, lowestY: piece.pos.y, lockElapsed: 0, lockResets: 0 };
+  }
+  // Only player moves made while the lock timer runs use up a reset.
+  if (byPlayer && state.lockElapsed > 0 && state.lockResets < state.rules.maxLockResets) {
+    return { ...moved, lockElapsed: 0, lockResets: state.lockResets + 1 };
+  }
+  return moved;
+}
+
+function tryMove(state: GameState, dx: number, dy: number, byPlayer = true): GameState {
+  const piece = state.piece!;
+  const pos = { x: piece.pos.x + dx, y: piece.pos.y + dy };
+  if (!isValidPosition(state.board, piece.shape, pos)) return state;
+  return placePiece(state, { ...piece, pos }, null, byPlayer);
+}
+
+function tick(state: GameState, ms: number): GameState {
+  const { timeLimitMs } = getMode(state.mode);
+  const elapsedMs = state.elapsedMs + ms;
+  if (timeLimitMs !== null && elapsedMs >= timeLimitMs) {
+    return { ...state, elapsedMs: timeLimitMs, status: "gameover", endReason: "timeUp" };
+  }
+  const wasGrounded = isGrounded(state);
+  let next: GameState = { ...state, elapsedMs, gravityElapsed: state.gravityElapsed + ms };
+  const interval = getGravityMs(next.level);
+  while (next.gravityElapsed >= interval && !isGrounded(next)) {
+    next = { ...tryMove(next, 0, 1, false), gravityElapsed: next.gravityElapsed - interval };
+  }
+  // Airborne, the lock timer pauses; only a new lowest row (placePiece)
+  // starts it afresh, so kicking the piece up cannot restart it.
+  if (!isGrounded(next)) return next;
+  // Landing again at this depth with no resets left locks at once.
+  const timerStarted = next.lockElapsed > 0 || next.lockResets > 0;
+  if (!wasGrounded && timerStarted && next.lockResets >= next.rules.maxLockResets) return lockPiece(next);
+  const lockElapsed = next.lockElapsed + ms;
+  if (lockElapsed >= next.rules.lockDelayMs) return lockPiece(next);
+  // Gravity keeps counting on the stack, up to one row's worth, so the
+  // piece falls on time when it is moved off a ledge.
+  return { ...next, gravityElapsed: Math.min(next.gravityElapsed, interval), lockElapsed };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Pure reducer: returns the state after applying `action`. Returns the same
+ * object when the action has no effect, so callers can skip re-rendering.
+ */
+export function step(state: GameState, action: GameAction): GameState {
+  if (state.status === "gameover") return state;
+  if (action.type === "end") return { ...state, piece: null, status: "gameover", endReason: "quit" };
+  if (state.status === "paused") {
+    return action.type === "resume" ? { ...state, status: "running" } : state;
+  }
+  if (!state.piece) return state;
+
+  switch (action.type) {
+    case "moveLeft":
+      return tryMove(state, -1, 0);
+    case "moveRight":
+      return tryMove(state, 1, 0);
+    case "softDrop": {
+      const next = tryMove(state, 0, 1);
+      return next === state ? state : { ...next, score: next.score + SOFT_DROP_POINTS };
+    }
+    case "rotate": {
+      const rotated = tryRotate(state.board, state.piece, action.direction);
+      if (!rotated) return state;
+      return placePiece(state, rotated.piece, { direction: action.direction, kick: rotated.kick });
+    }
+    case "hardDrop": {
+      const piece = state.piece;
+      const y = getDropY(state.board, piece.shape, piece.pos);
+      const distance = y - piece.pos.y;
+      return lockPiece({
+        ...state,
+        piece: { ...piece, pos: { ...piece.pos, y } },
+        score: state.score + distance * HARD_DROP_POINTS,
+        // Dropping is a movement, so a spin must be the last thing before it.
+        lastRotation: distance > 0 ? null : state.lastRotation,
+      }, distance);
+    }
+    case "hold":
+      return holdPiece(state);
+    case "tick":
+      return tick(state, action.ms);
+    case "pause":
+      return { ...state, status: "paused" };
+    case "resume":
+      return state;
+    default:
+      return state;
+  }
+}
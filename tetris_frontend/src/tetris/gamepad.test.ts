@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AXIS_DEADZONE, DEFAULT_GAMEPAD_BINDINGS, createGamepadPoller, readPressedButtons } from "./gamepad";
+
+// A connected pad snapshot with `buttons` pressed and the left stick at
+// `axes`, the way navigator.getGamepads() reports it.
+function pad(buttons: number[], axes = [0, 0]) {
+  return {
+    buttons: Array.from({ length: 17 }, (_, index) => ({ pressed: buttons.indexOf(index) !== -1, value: 0 })),
+    axes,
+  };
+}
+
+// Stubs the Gamepad API to return `pads` until the next call.
+function connect(...pads: (ReturnType<typeof pad> | null)[]) {
+  vi.stubGlobal("window", { navigator: { getGamepads: () => pads } });
+}
+
+// A poller whose presses and releases are collected in `log`.
+function setup() {
+  const log: string[] = [];
+  const poller = createGamepadPoller({
+    onPress: (action) => log.push(`+${action}`),
+    onRelease: (action) => log.push(`-${action}`),
+  });
+  return { log, poll: (bindings = DEFAULT_GAMEPAD_BINDINGS) => poller.poll(bindings) };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createGamepadPoller", () => {
+  it("reports a press once while held and a release when let go", () => {
+    const { log, poll } = setup();
+    connect(pad([1]));
+    poll();
+    poll();
+    expect(log).toEqual(["+rotateCW"]);
+    connect(pad([]));
+    poll();
+    expect(log).toEqual(["+rotateCW", "-rotateCW"]);
+  });
+
+  it("holds a button pressed on either of two pads until both let go", () => {
+    const { log, poll } = setup();
+    connect(null, pad([14]), pad([14]));
+    poll();
+    connect(null, pad([]), pad([14]));
+    poll();
+    expect(log).toEqual(["+moveLeft"]);
+    connect(null, pad([]), pad([]));
+    poll();
+    expect(log).toEqual(["+moveLeft", "-moveLeft"]);
+  });
+
+  it("releases the action a button started after a remap", () => {
+    const { log, poll } = setup();
+    connect(pad([0]));
+    poll();
+    connect(pad([]));
+    poll({ ...DEFAULT_GAMEPAD_BINDINGS, rotateCCW: [], hold: [0] });
+    expect(log).toEqual(["+rotateCCW", "-rotateCCW"]);
+  });
+
+  it("ignores unbound buttons", () => {
+    const { log, poll } = setup();
+    connect(pad([16]));
+    poll();
+    connect(pad([]));
+    poll();
+    expect(log).toEqual([]);
+  });
+});
+
+describe("readPressedButtons", () => {
+  it("reads the left stick as the d-pad past the deadzone", () => {
+    connect(pad([], [-AXIS_DEADZONE + 0.1, AXIS_DEADZONE - 0.1]));
+    expect(readPressedButtons()).toEqual([]);
+    connect(pad([], [-AXIS_DEADZONE, 0]));
+    expect(readPressedButtons()).toEqual([14]);
+    connect(pad([], [1, 1]));
+    expect(readPressedButtons()).toEqual([15, 13]);
+  });
+
+  it("never hard drops from the stick", () => {
+    connect(pad([], [0, -1]));
+    expect(readPressedButtons()).toEqual([]);
+  });
+
+  it("finds no pads without the Gamepad API", () => {
+    vi.stubGlobal("window", { navigator: {} });
+    expect(readPressedButtons()).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+//
+// Controller input through the browser Gamepad API. Pads are polled once per
+// frame and button edges are reported as bindable actions.
+//
+
+import { z } from "zod";
+import { BINDABLE_ACTIONS, BindableAction, Bindings, findActionFor } from "./bindings";
+import { readStored, writeStored } from "./storage";
+
+const GAMEPAD_BINDINGS_STORAGE_KEY = "tetris.gamepadBindings";
+
+// PUBLIC_INTERFACE
+export type GamepadBindings = Bindings<number>;
+
+// Button indices of the W3C "standard" gamepad mapping.
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  moveLeft: [14],
+  moveRight: [15],
+  softDrop: [13],
+  hardDrop: [12],
+  rotateCW: [1],
+  rotateCCW: [0],
+  rotate180: [3],
+  hold: [4, 5],
+  pause: [9],
+  restart: [8],
+  describeBoard: [],
+};
+
+const BUTTON_NAMES = [
+  "A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Select", "Start",
+  "L3", "R3", "D-pad ↑", "D-pad ↓", "D-pad ←", "D-pad →", "Home",
+];
+
+const gamepadBindingsSchema = z.object(
+  BINDABLE_ACTIONS.reduce(
+    (shape, action) => ({
+      ...shape,
+      [action]: z.array(z.number().int().min(0)).default(DEFAULT_GAMEPAD_BINDINGS[action]),
+    }),
+    {} as Record<BindableAction, z.ZodDefault<z.ZodArray<z.ZodNumber>>>
+  )
+);
+
+// PUBLIC_INTERFACE
+export function formatButton(index: number): string {
+  return BUTTON_NAMES[index] ?? `Button ${index}`;
+}
+
+// PUBLIC_INTERFACE
+export function isGamepadSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.navigator.getGamepads === "function";
+}
+
+// How far the left stick must lean before it counts as a d-pad press, so a
+// resting stick that drifts slightly does not move pieces.
+export const AXIS_DEADZONE = 0.5;
+
+// The d-pad buttons the left stick stands in for. Pushing up is left out so
+// a sloppy stick cannot hard drop.
+const STICK_LEFT = 14;
+const STICK_RIGHT = 15;
+const STICK_DOWN = 13;
+
+/**
+ * PUBLIC_INTERFACE
+ * Indices of the buttons currently pressed on any connected pad. The left
+ * stick reads as the d-pad once it leans past AXIS_DEADZONE.
+ */
+export function readPressedButtons(): number[] {
+  if (!isGamepadSupported()) return [];
+  const pressed: number[] = [];
+  const press = (index: number) => {
+    if (pressed.indexOf(index) === -1) pressed.push(index);
+  };
+  for (const pad of window.navigator.getGamepads()) {
+    if (!pad) continue;
+    pad.buttons.forEach((button, index) => {
+      if (button.pressed) press(index);
+    });
+    const [x = 0, y = 0] = pad.axes;
+    if (x <= -AXIS_DEADZONE) press(STICK_LEFT);
+    if (x >= AXIS_DEADZONE) press(STICK_RIGHT);
+    if (y >= AXIS_DEADZONE) press(STICK_DOWN);
+  }
+  return pressed;
+}
+
+// PUBLIC_INTERFACE
+export type GamepadPoller = {
+  // Reads all pads and reports buttons pressed or released since last poll.
+  poll: (bindings: GamepadBindings) => void;
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Creates a poller that turns button edges into bindable-action callbacks.
+ * A button held across polls is reported once; repeats are left to the
+ * input controller so pads share the keyboard's DAS/ARR.
+ */
+export function createGamepadPoller(handlers: {
+  onPress: (action: BindableAction) => void;
+  onRelease: (action: BindableAction) => void;
+}): GamepadPoller {
+  // Buttons down at the last poll, with the action each one started (so a
+  // remap while a button is held still releases the right action).
+  let held: { index: number; action: BindableAction | null }[] = [];
+
+  function poll(bindings: GamepadBindings) {
+    const pressed = readPressedButtons();
+    const next = pressed.map((index) => {
+      const previous = held.find((h) => h.index === index);
+      if (previous) return previous;
+      const action = findActionFor(bindings, index);
+      if (action) handlers.onPress(action);
+      return { index, action };
+    });
+    for (const { index, action } of held) {
+      if (action && pressed.indexOf(index) === -1) handlers.onRelease(action);
+    }
+    held = next;
+  }
+
+  return { poll };
+}
+
+// PUBLIC_INTERFACE
+export function loadGamepadBindings(): GamepadBindings {
+  return readStored(GAMEPAD_BINDINGS_STORAGE_KEY, gamepadBindingsSchema) ?? DEFAULT_GAMEPAD_BINDINGS;
+}
+
+// PUBLIC_INTERFACE
+export function saveGamepadBindings(bindings: GamepadBindings): void {
+  writeStored(GAMEPAD_BINDINGS_STORAGE_KEY, bindings);
+}
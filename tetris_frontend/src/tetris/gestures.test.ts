@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GESTURES, createGestureRecognizer } from "./gestures";
+
+// 30 px cells: a drag of 24 px (0.8 of a cell) is one step.
+const CELL = 30;
+const STEP = CELL * DEFAULT_GESTURES.dragCellRatio;
+
+// A recognizer whose gestures are collected in `log`.
+function setup() {
+  const log: string[] = [];
+  const recognizer = createGestureRecognizer(DEFAULT_GESTURES, CELL, {
+    onMove: (direction) => log.push(direction < 0 ? "left" : "right"),
+    onSoftDrop: () => log.push("softDrop"),
+    onHardDrop: () => log.push("hardDrop"),
+    onTap: (fingers) => log.push(`tap${fingers}`),
+  });
+  return { log, recognizer };
+}
+
+describe("createGestureRecognizer", () => {
+  it("taps on a short press that barely moves", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerMove(1, 103, 102, 50);
+    recognizer.pointerUp(1, 103, 102, 100);
+    expect(log).toEqual(["tap1"]);
+  });
+
+  it("counts every finger of a tap", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerDown(2, 200, 100, 20);
+    recognizer.pointerUp(2, 200, 100, 80);
+    expect(log).toEqual([]);
+    recognizer.pointerUp(1, 100, 100, 100);
+    expect(log).toEqual(["tap2"]);
+  });
+
+  it("does not tap on a press held past the tap time", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerUp(1, 100, 100, DEFAULT_GESTURES.tapMaxMs + 1);
+    expect(log).toEqual([]);
+  });
+
+  it("moves one column per step of a sideways swipe", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerMove(1, 100 - STEP * 2.5, 104, 100);
+    recognizer.pointerMove(1, 100 - STEP * 0.5, 104, 200);
+    recognizer.pointerUp(1, 100 - STEP * 0.5, 104, 300);
+    expect(log).toEqual(["left", "left", "right"]);
+  });
+
+  it("soft drops while a slow downward drag is held, without hard dropping", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerMove(1, 100, 100 + STEP * 3, 600);
+    recognizer.pointerMove(1, 100, 100 + STEP * 3, 1000);
+    recognizer.pointerUp(1, 100, 100 + STEP * 3, 1100);
+    expect(log).toEqual(["softDrop", "softDrop", "softDrop"]);
+  });
+
+  it("hard drops on a fast downward flick", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerMove(1, 100, 140, 20);
+    recognizer.pointerUp(1, 100, 200, 40);
+    expect(log[log.length - 1]).toBe("hardDrop");
+    expect(log.indexOf("tap1")).toBe(-1);
+  });
+
+  it("forgets a cancelled gesture", () => {
+    const { log, recognizer } = setup();
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.cancel();
+    recognizer.pointerUp(1, 100, 100, 50);
+    expect(log).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+//
+// Touch gesture recognition for the playfield: drag to move, tap to rotate,
+// flick down to hard drop. Works on raw pointer coordinates so it can be
+// driven by pointer events or tests alike.
+//
+
+import { z } from "zod";
+import { readStored, writeStored } from "./storage";
+
+const GESTURE_STORAGE_KEY = "tetris.gestures";
+
+export const gestureConfigSchema = z.object({
+  // Drag distance, as a fraction of a cell, that moves the piece one column
+  // (or soft drops one row). Smaller is more sensitive.
+  dragCellRatio: z.number().positive(),
+  // Downward release speed (px/ms) that counts as a flick / hard drop.
+  flickVelocity: z.number().positive(),
+  // Longest press, and furthest movement, that still counts as a tap.
+  tapMaxMs: z.number().positive(),
+  tapMaxDistance: z.number().positive(),
+});
+
+// PUBLIC_INTERFACE
+export type GestureConfig = z.infer<typeof gestureConfigSchema>;
+
+export const DEFAULT_GESTURES: GestureConfig = {
+  dragCellRatio: 0.8,
+  flickVelocity: 1.2,
+  tapMaxMs: 220,
+  tapMaxDistance: 10,
+};
+
+// PUBLIC_INTERFACE
+export type GestureHandlers = {
+  onMove: (direction: -1 | 1) => void;
+  onSoftDrop: () => void;
+  onHardDrop: () => void;
+  // A tap with one or more fingers.
+  onTap: (fingers: number) => void;
+};
+
+// PUBLIC_INTERFACE
+export type GestureRecognizer = {
+  pointerDown: (id: number, x: number, y: number, time: number) => void;
+  pointerMove: (id: number, x: number, y: number, time: number) => void;
+  pointerUp: (id: number, x: number, y: number, time: number) => void;
+  cancel: () => void;
+  setConfig: (config: GestureConfig) => void;
+  setCellSize: (px: number) => void;
+};
+
+type Sample = { x: number; y: number; time: number };
+
+// Velocity is measured over roughly the last this-many milliseconds.
+const VELOCITY_WINDOW_MS = 80;
+
+/**
+ * PUBLIC_INTERFACE
+ * Creates a recognizer for one surface. The first finger down drives drags;
+ * extra fingers only turn a tap into a multi-finger tap.
+ */
+export function createGestureRecognizer(
+  config: GestureConfig,
+  cellSize: number,
+  handlers: GestureHandlers
+): GestureRecognizer {
+  let settings = config;
+  let cell = cellSize;
+  // Gesture in progress, if any.
+  let primary: number | null = null;
+  let down: Sample = { x: 0, y: 0, time: 0 };
+  let anchor = { x: 0, y: 0 };
+  // Drag direction, locked once the finger leaves the tap radius.
+  let axis: "x" | "y" | null = null;
+  let tap = false;
+  let samples: Sample[] = [];
+  let fingers: number[] = [];
+  let maxFingers = 0;
+
+  function reset() {
+    primary = null;
+    axis = null;
+    tap = false;
+    samples = [];
+    fingers = [];
+    maxFingers = 0;
+  }
+
+  function pointerDown(id: number, x: number, y: number, time: number) {
+    if (fingers.indexOf(id) === -1) fingers = [...fingers, id];
+    maxFingers = Math.max(maxFingers, fingers.length);
+    if (primary !== null) return;
+    primary = id;
+    tap = true;
+    down = { x, y, time };
+    anchor = { x, y };
+    samples = [down];
+  }
+
+  function pointerMove(id: number, x: number, y: number, time: number) {
+    if (id !== primary) return;
+    samples = [...samples, { x, y, time }].filter((s) => time - s.time <= VELOCITY_WINDOW_MS);
+    if (axis === null) {
+      const dx = x - down.x;
+      const dy = y - down.y;
+      if (Math.hypot(dx, dy) < settings.tapMaxDistance) return;
+      tap = false;
+      // Multi-finger gestures are taps only.
+      if (maxFingers > 1) return;
+      axis = Math.abs(dx) >= Math.abs(dy) ? "x" : "y";
+    }
+    const step = Math.max(cell * settings.dragCellRatio, 1);
+    if (axis === "x") {
+      while (Math.abs(x - anchor.x) >= step) {
+        const direction = x > anchor.x ? 1 : -1;
+        anchor.x += direction * step;
+        handlers.onMove(direction);
+      }
+    } else {
+      // Only downward drags soft drop; dragging back up does nothing.
+      while (y - anchor.y >= step) {
+        anchor.y += step;
+        handlers.onSoftDrop();
+      }
+      if (y < anchor.y) anchor.y = y;
+    }
+  }
+
+  function pointerUp(id: number, x: number, y: number, time: number) {
+    if (fingers.indexOf(id) === -1) return;
+    fingers = fingers.filter((f) => f !== id);
+    if (id === primary) {
+      if (Math.hypot(x - down.x, y - down.y) >= settings.tapMaxDistance) tap = false;
+      const first = samples.find((s) => time - s.time <= VELOCITY_WINDOW_MS) ?? down;
+      const velocity = time > first.time ? (y - first.y) / (time - first.time) : 0;
+      if (axis === "y" && velocity >= settings.flickVelocity) handlers.onHardDrop();
+    }
+    // A tap fires once every finger of it has lifted.
+    if (fingers.length > 0) return;
+    if (tap && time - down.time <= settings.tapMaxMs) handlers.onTap(maxFingers);
+    reset();
+  }
+
+  return {
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    cancel: reset,
+    setConfig: (next) => {
+      settings = next;
+    },
+    setCellSize: (px) => {
+      cell = px;
+    },
+  };
+}
+
+// PUBLIC_INTERFACE
+export function loadGestureConfig(): GestureConfig | null {
+  return readStored(GESTURE_STORAGE_KEY, gestureConfigSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveGestureConfig(config: GestureConfig): void {
+  writeStored(GESTURE_STORAGE_KEY, config);
+}
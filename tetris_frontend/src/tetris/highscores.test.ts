@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { GameState, createGame, step } from "./game";
+import { HIGH_SCORES_PER_MODE, HighScoreEntry, createEntry, getModeTable, qualifies } from "./highscores";
+import { getPresetRules } from "./rules";
+
+function finished(state: GameState): GameState {
+  return { ...state, status: "gameover", endReason: "topOut", score: 1000 };
+}
+
+describe("createEntry", () => {
+  it("records the game's seed", () => {
+    expect(createEntry(finished(createGame(1234)), "ABC")).toMatchObject({ name: "ABC", score: 1000, seed: 1234 });
+  });
+
+  it("leaves out games on a chosen seed", () => {
+    expect(createEntry(finished(createGame(1234, "marathon", undefined, true)), "ABC")).toBeNull();
+  });
+
+  it("leaves out non-standard boards and randomizers", () => {
+    expect(createEntry(finished(createGame(1, "marathon", getPresetRules("wide"))), "ABC")).toBeNull();
+    expect(createEntry(finished(createGame(1, "marathon", getPresetRules("standard", { randomizer: "random" }))), "ABC")).toBeNull();
+  });
+
+  it("needs a finished game", () => {
+    expect(createEntry(createGame(1), "ABC")).toBeNull();
+  });
+
+  it("ranks a Zen game the player ended, but no other mode's", () => {
+    const zen = step(step(createGame(1, "zen"), { type: "hardDrop" }), { type: "end" });
+    const entry = createEntry(zen, "ZEN");
+    expect(entry).toMatchObject({ mode: "zen", score: zen.score });
+    expect(qualifies([], entry!)).toBe(true);
+    expect(getModeTable([entry!], "zen")).toEqual([entry]);
+    expect(createEntry(step(createGame(1), { type: "end" }), "ABC")).toBeNull();
+  });
+});
+
+describe("qualifies", () => {
+  const entry = (score: number): HighScoreEntry => ({
+    name: "ABC", score, lines: 0, level: 0, durationMs: 0, mode: "zen", seed: 1, date: "2024-01-01",
+  });
+  const full = Array.from({ length: HIGH_SCORES_PER_MODE }, (_, i) => entry(100 * (i + 1)));
+
+  it("needs a better score than the last place once the table is full", () => {
+    expect(qualifies(full, entry(150))).toBe(true);
+    expect(qualifies(full, entry(100))).toBe(false);
+  });
+});
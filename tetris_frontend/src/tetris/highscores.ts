@@ -0,0 +1,119 @@
+//
+// Local leaderboards: the best finished games of each mode, kept in
+// localStorage. The daily challenge has a table per day.
+//
+
+import { z } from "zod";
+import { GameState } from "./game";
+import { GameModeId, gameModeIdSchema, getMode } from "./modes";
+import { isStandardBoard } from "./rules";
+import { getDailySeed } from "./seeds";
+import { readStored, writeStored } from "./storage";
+
+const HIGH_SCORES_STORAGE_KEY = "tetris.highScores";
+const PLAYER_NAME_STORAGE_KEY = "tetris.playerName";
+
+export const HIGH_SCORES_PER_MODE = 10;
+export const MAX_NAME_LENGTH = 3;
+
+export const highScoreEntrySchema = z.object({
+  name: z.string().min(1).max(MAX_NAME_LENGTH),
+  score: z.number(),
+  lines: z.number().int().min(0),
+  level: z.number().int().min(0),
+  durationMs: z.number().min(0),
+  mode: gameModeIdSchema,
+  seed: z.number().int(),
+  date: z.string(),
+});
+
+// PUBLIC_INTERFACE
+export type HighScoreEntry = z.infer<typeof highScoreEntrySchema>;
+
+/**
+ * PUBLIC_INTERFACE
+ * Orders entries best first: by time for timed-goal modes (Sprint), by score
+ * otherwise. Earlier entries win ties.
+ */
+export function compareEntries(a: HighScoreEntry, b: HighScoreEntry): number {
+  const primary = getMode(a.mode).ranking === "time" ? a.durationMs - b.durationMs : b.score - a.score;
+  return primary !== 0 ? primary : a.date < b.date ? -1 : a.date > b.date ? 1 : 0;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Builds an entry for a finished game, or null if the game cannot rank
+ * (e.g. a Sprint that topped out before the goal, a custom board, a
+ * randomizer other than the mode's or a seed the player typed in). Zen
+ * games only end when the player ends them, so those rank by score.
+ */
+export function createEntry(state: GameState, name: string): HighScoreEntry | null {
+  const mode = getMode(state.mode);
+  if (state.status !== "gameover" || !isStandardBoard(state.rules)) return null;
+  if (state.randomizer !== mode.randomizer || state.customSeed) return null;
+  if (mode.ranking === "time" && state.endReason !== "goal") return null;
+  // Other modes end on their own; ending one early does not rank.
+  if (state.endReason === "quit" && mode.topOut !== "clearBoard") return null;
+  return {
+    name,
+    score: state.score,
+    lines: state.lines,
+    level: state.level,
+    durationMs: state.elapsedMs,
+    mode: state.mode,
+    seed: state.seed,
+    date: new Date().toISOString(),
+  };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Best entries of `mode`. For the daily challenge only games played with
+ * `seed` count, today's by default.
+ */
+export function getModeTable(
+  entries: HighScoreEntry[],
+  mode: GameModeId,
+  seed: number = getDailySeed()
+): HighScoreEntry[] {
+  const daily = getMode(mode).daily;
+  return entries
+    .filter((e) => e.mode === mode && (!daily || e.seed === seed))
+    .sort(compareEntries)
+    .slice(0, HIGH_SCORES_PER_MODE);
+}
+
+// PUBLIC_INTERFACE
+export function qualifies(entries: HighScoreEntry[], entry: HighScoreEntry): boolean {
+  const table = getModeTable(entries, entry.mode, entry.seed);
+  return table.length < HIGH_SCORES_PER_MODE || compareEntries(entry, table[table.length - 1]) < 0;
+}
+
+// PUBLIC_INTERFACE
+export function loadHighScores(): HighScoreEntry[] {
+  return readStored(HIGH_SCORES_STORAGE_KEY, z.array(highScoreEntrySchema)) ?? [];
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Adds `entry` and trims its mode's table; returns all stored entries.
+ * Earlier days' daily challenge entries are dropped with it.
+ */
+export function saveHighScore(entry: HighScoreEntry): HighScoreEntry[] {
+  const all = [...loadHighScores(), entry];
+  const kept = all.filter(
+    (e) => e.mode !== entry.mode || getModeTable(all, entry.mode, entry.seed).indexOf(e) !== -1
+  );
+  writeStored(HIGH_SCORES_STORAGE_KEY, kept);
+  return kept;
+}
+
+// PUBLIC_INTERFACE
+export function loadPlayerName(): string {
+  return readStored(PLAYER_NAME_STORAGE_KEY, z.string().max(MAX_NAME_LENGTH)) ?? "";
+}
+
+// PUBLIC_INTERFACE
+export function savePlayerName(name: string): void {
+  writeStored(PLAYER_NAME_STORAGE_KEY, name);
+}
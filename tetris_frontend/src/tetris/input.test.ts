@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { HandlingConfig, createInputController } from "./input";
+import { PlayerAction } from "./timeline";
+
+const HANDLING: HandlingConfig = { dasMs: 100, arrMs: 30, softDropFactor: 20 };
+
+// A controller whose dispatched actions are collected in `log`. Moves stop
+// working after `room` steps in one direction, like a wall.
+function setup(handling = HANDLING, room = Infinity) {
+  const log: string[] = [];
+  const position = { x: 0 };
+  const dispatch = (action: PlayerAction) => {
+    const dx = action.type === "moveLeft" ? -1 : action.type === "moveRight" ? 1 : 0;
+    if (Math.abs(position.x + dx) > room) return false;
+    position.x += dx;
+    log.push(action.type);
+    return true;
+  };
+  const input = createInputController(handling, dispatch, () => 1000);
+  const run = (ms: number) => {
+    for (let t = 0; t < ms; t += 10) input.update(10);
+  };
+  return { input, log, run };
+}
+
+describe("createInputController", () => {
+  it("moves once on press and waits for DAS before repeating", () => {
+    const { input, log, run } = setup();
+    input.press("left");
+    expect(log).toEqual(["moveLeft"]);
+    run(90);
+    expect(log).toHaveLength(1);
+    run(10);
+    expect(log).toHaveLength(2);
+  });
+
+  it("repeats every ARR once DAS has charged", () => {
+    const { input, log, run } = setup();
+    input.press("right");
+    run(100 + 90);
+    // Press, DAS, then three ARR steps.
+    expect(log).toEqual(Array(5).fill("moveRight"));
+    input.release("right");
+    run(200);
+    expect(log).toHaveLength(5);
+  });
+
+  it("goes straight to the wall with ARR 0", () => {
+    const { input, log, run } = setup({ ...HANDLING, arrMs: 0 }, 4);
+    input.press("left");
+    run(100);
+    expect(log).toEqual(Array(4).fill("moveLeft"));
+  });
+
+  it("lets the newer direction win, and falls back on release with a fresh DAS", () => {
+    const { input, log, run } = setup();
+    input.press("left");
+    input.press("right");
+    run(100);
+    expect(log).toEqual(["moveLeft", "moveRight", "moveRight"]);
+    log.length = 0;
+    input.release("right");
+    expect(log).toEqual(["moveLeft"]);
+    run(90);
+    expect(log).toEqual(["moveLeft"]);
+  });
+
+  it("keeps a control held until every source lets go", () => {
+    const { input, log, run } = setup();
+    input.press("left", "keyboard");
+    input.press("left", "gamepad");
+    input.release("left", "keyboard");
+    run(100);
+    expect(log).toHaveLength(2);
+    input.release("left", "gamepad");
+    run(100);
+    expect(log).toHaveLength(2);
+  });
+
+  it("soft drops at the soft drop factor times gravity", () => {
+    const { input, log, run } = setup();
+    input.press("softDrop");
+    // 1000 ms gravity / 20 = one row every 50 ms.
+    run(200);
+    expect(log).toEqual(Array(5).fill("softDrop"));
+  });
+});
@@ -0,0 +1,175 @@
+//
+// Held-input handling: Delayed Auto Shift, Auto Repeat Rate and soft drop
+// factor, independent of the OS key repeat.
+//
+
+import { z } from "zod";
+import { PlayerAction } from "./timeline";
+import { readStored, writeStored } from "./storage";
+
+const HANDLING_STORAGE_KEY = "tetris.handling";
+
+export const handlingSchema = z.object({
+  // Delay before a held direction starts repeating (DAS).
+  dasMs: z.number().min(0),
+  // Time between repeats once DAS has charged; 0 moves straight to the wall.
+  arrMs: z.number().min(0),
+  // Soft drop speed as a multiple of the current gravity.
+  softDropFactor: z.number().min(1),
+});
+
+// PUBLIC_INTERFACE
+export type HandlingConfig = z.infer<typeof handlingSchema>;
+
+export const DEFAULT_HANDLING: HandlingConfig = {
+  dasMs: 133,
+  arrMs: 33,
+  softDropFactor: 20,
+};
+
+// PUBLIC_INTERFACE
+export function loadHandling(): HandlingConfig | null {
+  return readStored(HANDLING_STORAGE_KEY, handlingSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveHandling(config: HandlingConfig): void {
+  writeStored(HANDLING_STORAGE_KEY, config);
+}
+
+// Controls that act for as long as they are held.
+export type HeldControl = "left" | "right" | "softDrop";
+
+// Input devices that can hold a control (e.g. "keyboard", "gamepad").
+// A control stays held until every source holding it has released it.
+export type InputSource = string;
+
+// PUBLIC_INTERFACE
+export type InputController = {
+  press: (control: HeldControl, source?: InputSource) => void;
+  release: (control: HeldControl, source?: InputSource) => void;
+  // Releases everything, e.g. when the window loses focus.
+  releaseAll: () => void;
+  // Advances the repeat timers; call once per simulation frame.
+  update: (ms: number) => void;
+  setConfig: (config: HandlingConfig) => void;
+};
+
+// Safety cap for instant (ARR 0 / very fast soft drop) repeats in one frame.
+const MAX_REPEATS_PER_FRAME = 64;
+
+const ACTIONS: Record<HeldControl, PlayerAction> = {
+  left: { type: "moveLeft" },
+  right: { type: "moveRight" },
+  softDrop: { type: "softDrop" },
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Creates an input controller that turns held controls into repeated
+ * actions. `dispatch` returns whether the action changed the game, which
+ * lets instant repeats stop at the wall. `getGravityMs` is read each frame
+ * so soft drop follows the current level.
+ */
+export function createInputController(
+  config: HandlingConfig,
+  dispatch: (action: PlayerAction) => boolean,
+  getGravityMs: () => number
+): InputController {
+  let handling = config;
+  // Directions held, most recent last: the newest one wins.
+  let directions: HeldControl[] = [];
+  let dasElapsed = 0;
+  let arrElapsed = 0;
+  let softDropHeld = false;
+  let softDropElapsed = 0;
+  const holders: Record<HeldControl, InputSource[]> = { left: [], right: [], softDrop: [] };
+
+  function repeat(action: PlayerAction, times: number) {
+    for (let i = 0; i < times; i++) {
+      if (!dispatch(action)) return;
+    }
+  }
+
+  function startDirection(control: HeldControl) {
+    dasElapsed = 0;
+    arrElapsed = 0;
+    dispatch(ACTIONS[control]);
+  }
+
+  function press(control: HeldControl, source: InputSource = "keyboard") {
+    if (holders[control].indexOf(source) === -1) {
+      holders[control] = [...holders[control], source];
+    }
+    if (control === "softDrop") {
+      if (softDropHeld) return;
+      softDropHeld = true;
+      softDropElapsed = 0;
+      dispatch(ACTIONS.softDrop);
+      return;
+    }
+    if (directions.indexOf(control) !== -1) return;
+    directions = [...directions, control];
+    startDirection(control);
+  }
+
+  function release(control: HeldControl, source: InputSource = "keyboard") {
+    holders[control] = holders[control].filter((h) => h !== source);
+    if (holders[control].length > 0) return;
+    if (control === "softDrop") {
+      softDropHeld = false;
+      return;
+    }
+    const wasActive = directions[directions.length - 1] === control;
+    directions = directions.filter((d) => d !== control);
+    // Fall back to a direction that is still held, with a fresh DAS.
+    if (wasActive && directions.length > 0) {
+      startDirection(directions[directions.length - 1]);
+    }
+  }
+
+  function update(ms: number) {
+    const active = directions[directions.length - 1];
+    if (active) {
+      const action = ACTIONS[active];
+      if (dasElapsed < handling.dasMs) {
+        dasElapsed += ms;
+        // Whatever is left of this frame after DAS charged counts towards ARR.
+        arrElapsed = Math.max(0, dasElapsed - handling.dasMs);
+        if (dasElapsed >= handling.dasMs) {
+          repeat(action, handling.arrMs <= 0 ? MAX_REPEATS_PER_FRAME : 1);
+        }
+      } else if (handling.arrMs <= 0) {
+        repeat(action, MAX_REPEATS_PER_FRAME);
+      } else {
+        arrElapsed += ms;
+        const times = Math.floor(arrElapsed / handling.arrMs);
+        arrElapsed -= times * handling.arrMs;
+        repeat(action, Math.min(times, MAX_REPEATS_PER_FRAME));
+      }
+    }
+    if (softDropHeld) {
+      const interval = getGravityMs() / Math.max(handling.softDropFactor, 1);
+      softDropElapsed += ms;
+      const times = Math.floor(softDropElapsed / interval);
+      softDropElapsed -= times * interval;
+      repeat(ACTIONS.softDrop, Math.min(times, MAX_REPEATS_PER_FRAME));
+    }
+  }
+
+  return {
+    press,
+    release,
+    releaseAll: () => {
+      directions = [];
+      softDropHeld = false;
+      holders.left = [];
+      holders.right = [];
+      holders.softDrop = [];
+    },
+    update,
+    setConfig: (next) => {
+      handling = next;
+    },
+  };
+}
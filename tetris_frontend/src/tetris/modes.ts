@@ -0,0 +1,169 @@
+//
+// Game modes: each one defines its goal, clock, levels and what a result is
+// ranked by. The reducer reads the definition from the mode id in the state.
+//
+
+import { z } from "zod";
+import { RandomizerId } from "./randomizer";
+import { readStored, writeStored } from "./storage";
+
+const MODE_STORAGE_KEY = "tetris.mode";
+
+export const gameModeIdSchema = z.enum(["marathon", "sprint", "ultra", "zen", "daily"]);
+
+// PUBLIC_INTERFACE
+export type GameModeId = z.infer<typeof gameModeIdSchema>;
+
+// Why a game ended: topped out, reached the mode's goal, ran out of time, or
+// the player ended it.
+export const gameEndReasonSchema = z.enum(["topOut", "goal", "timeUp", "quit"]);
+
+// PUBLIC_INTERFACE
+export type GameEndReason = z.infer<typeof gameEndReasonSchema>;
+
+// PUBLIC_INTERFACE
+export type GameMode = {
+  id: GameModeId;
+  name: string;
+  description: string;
+  startLevel: number;
+  // Whether the level rises every 10 lines; otherwise gravity stays fixed.
+  levelUp: boolean;
+  // The game is won once this many lines have been cleared.
+  lineGoal: number | null;
+  // Play time after which the game ends.
+  timeLimitMs: number | null;
+  // Zen clears the board instead of ending on a top-out.
+  topOut: "gameOver" | "clearBoard";
+  // What results are ranked by: higher score, or faster completion.
+  ranking: "score" | "time";
+  // Piece randomizer unless the rules pick another.
+  randomizer: RandomizerId;
+  // Played with the day's shared seed and standard rules; its leaderboard
+  // only holds that day's games.
+  daily: boolean;
+};
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  marathon: {
+    id: "marathon",
+    name: "Marathon",
+    description: "Clear 150 lines as the speed rises every 10.",
+    startLevel: 0,
+    levelUp: true,
+    lineGoal: 150,
+    timeLimitMs: null,
+    topOut: "gameOver",
+    ranking: "score",
+    randomizer: "bag7",
+    daily: false,
+  },
+  sprint: {
+    id: "sprint",
+    name: "Sprint 40L",
+    description: "Clear 40 lines as fast as possible.",
+    startLevel: 0,
+    levelUp: false,
+    lineGoal: 40,
+    timeLimitMs: null,
+    topOut: "gameOver",
+    ranking: "time",
+    randomizer: "bag7",
+    daily: false,
+  },
+  ultra: {
+    id: "ultra",
+    name: "Ultra",
+    description: "Score as much as you can in 2 minutes.",
+    startLevel: 0,
+    levelUp: false,
+    lineGoal: null,
+    timeLimitMs: 2 * 60 * 1000,
+    topOut: "gameOver",
+    ranking: "score",
+    randomizer: "bag7",
+    daily: false,
+  },
+  zen: {
+    id: "zen",
+    name: "Zen",
+    description: "No clock and no top-out: filling up just clears the board. End the game when you like.",
+    startLevel: 0,
+    levelUp: false,
+    lineGoal: null,
+    timeLimitMs: null,
+    topOut: "clearBoard",
+    ranking: "score",
+    // TGM's history deal rarely repeats a recent piece: gentler for practice.
+    randomizer: "tgm",
+    daily: false,
+  },
+  daily: {
+    id: "daily",
+    name: "Daily Challenge",
+    description: "Today's pieces, the same for everyone: score all you can in 3 minutes.",
+    startLevel: 0,
+    levelUp: true,
+    lineGoal: null,
+    timeLimitMs: 3 * 60 * 1000,
+    topOut: "gameOver",
+    ranking: "score",
+    // Two sets per bag, so each day's pieces are a less predictable puzzle.
+    randomizer: "bag14",
+    daily: true,
+  },
+};
+
+// Menu order.
+export const GAME_MODE_IDS: GameModeId[] = ["daily", "marathon", "sprint", "ultra", "zen"];
+
+// PUBLIC_INTERFACE
+export function getMode(id: GameModeId): GameMode {
+  return GAME_MODES[id];
+}
+
+function pad2(n: number): string {
+  return n < 10 ? `0${n}` : `${n}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Formats a play time as m:ss.cc (hundredths, as speedrun timers do).
+ */
+export function formatDuration(ms: number): string {
+  const hundredths = Math.floor(Math.max(ms, 0) / 10);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor(hundredths / 100) % 60;
+  return `${minutes}:${pad2(seconds)}.${pad2(hundredths % 100)}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * The time to show for a game: remaining time in timed modes, otherwise the
+ * time played.
+ */
+export function getModeClock(mode: GameMode, elapsedMs: number): number {
+  return mode.timeLimitMs === null ? elapsedMs : Math.max(mode.timeLimitMs - elapsedMs, 0);
+}
+
+const END_TITLES: Record<GameEndReason, string> = {
+  topOut: "GAME OVER",
+  goal: "COMPLETE!",
+  timeUp: "TIME UP!",
+  quit: "GAME ENDED",
+};
+
+// PUBLIC_INTERFACE
+export function getEndTitle(reason: GameEndReason | null): string {
+  return END_TITLES[reason ?? "topOut"];
+}
+
+// PUBLIC_INTERFACE
+export function loadLastMode(): GameModeId | null {
+  return readStored(MODE_STORAGE_KEY, gameModeIdSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveLastMode(mode: GameModeId): void {
+  writeStored(MODE_STORAGE_KEY, mode);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { randomSeededRNG } from "./engine";
+import { createGame } from "./game";
+import { GAME_MODE_IDS, getMode } from "./modes";
+import { RANDOMIZER_IDS, createRandomizerRNG, fillQueue } from "./randomizer";
+import { DEFAULT_RULES } from "./rules";
+
+describe("randomizers", () => {
+  RANDOMIZER_IDS.forEach((id) => {
+    it(`${id} deals the same pieces for the same seed`, () => {
+      const first = fillQueue(id, [], [], 42, 70);
+      expect(fillQueue(id, [], [], 42, 70)).toEqual(first);
+      expect(fillQueue(id, [], [], 43, 70).queue).not.toEqual(first.queue);
+    });
+
+    it(`${id} deals the same pieces whether pure or stateful`, () => {
+      const draw = createRandomizerRNG(id, randomSeededRNG(7));
+      const dealt = Array.from({ length: 70 }, () => draw());
+      expect(fillQueue(id, [], [], 7, 70).queue).toEqual(dealt);
+    });
+  });
+
+  it("deals every piece once per 7-bag", () => {
+    const { queue } = fillQueue("bag7", [], [], 42, 70);
+    for (let i = 0; i < queue.length; i += 7) {
+      expect([...queue.slice(i, i + 7)].sort()).toEqual(["I", "J", "L", "O", "S", "T", "Z"]);
+    }
+  });
+
+  it("picks up where the queue left off", () => {
+    const start = fillQueue("bag7", [], [], 42, 5);
+    const topped = fillQueue("bag7", start.queue, start.memory, start.rngState, 12);
+    expect(topped.queue).toEqual(fillQueue("bag7", [], [], 42, 12).queue);
+  });
+
+  it("starts games of the same seed alike", () => {
+    expect(createGame(99, "marathon")).toEqual(createGame(99, "marathon"));
+  });
+
+  it("deals a new game with its mode's randomizer unless the rules pick one", () => {
+    GAME_MODE_IDS.forEach((mode) => {
+      const game = createGame(99, mode);
+      expect(game.randomizer).toBe(getMode(mode).randomizer);
+      expect(game.queue).toEqual(fillQueue(getMode(mode).randomizer, [], [], 99, game.queue.length + 1).queue.slice(1));
+    });
+    expect(createGame(99, "zen").randomizer).toBe("tgm");
+    expect(createGame(99, "zen", { ...DEFAULT_RULES, randomizer: "nes" }).randomizer).toBe("nes");
+  });
+});
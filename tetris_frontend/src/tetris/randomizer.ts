@@ -0,0 +1,186 @@
+//
+// Piece randomizers. Each strategy draws from a seeded PRNG plus a small
+// serializable memory (bag contents or recent history), so the reducer can
+// keep it in the game state and replays reproduce the same sequence.
+//
+
+import { z } from "zod";
+import { TetrominoType } from "./types";
+import { mulberry32Step } from "./engine";
+
+const TETROMINO_SEQUENCE: TetrominoType[] = ["I", "O", "T", "S", "Z", "J", "L"];
+
+export const randomizerIdSchema = z.enum(["bag7", "bag14", "random", "nes", "tgm"]);
+
+// PUBLIC_INTERFACE
+export type RandomizerId = z.infer<typeof randomizerIdSchema>;
+
+// PUBLIC_INTERFACE
+export type Randomizer = {
+  id: RandomizerId;
+  name: string;
+  description: string;
+  // Draws one piece. `memory` is whatever the strategy needs to remember
+  // between draws and starts out empty; it is never mutated.
+  draw: (
+    memory: TetrominoType[],
+    rng: () => number
+  ) => { type: TetrominoType; memory: TetrominoType[] };
+};
+
+function shuffle(array: TetrominoType[], rng: () => number): TetrominoType[] {
+  // Fisher-Yates shuffle
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+}
+
+function pick(types: TetrominoType[], rng: () => number): TetrominoType {
+  return types[Math.floor(rng() * types.length)];
+}
+
+// Deals shuffled bags of `copies` full sets; memory is the rest of the bag.
+function bagDraw(copies: number): Randomizer["draw"] {
+  return (memory, rng) => {
+    let bag = [...memory];
+    if (bag.length === 0) {
+      for (let i = 0; i < copies; i++) bag.push(...TETROMINO_SEQUENCE);
+      bag = shuffle(bag, rng);
+    }
+    const type = bag.pop()!;
+    return { type, memory: bag };
+  };
+}
+
+// TGM: the first piece is never S, Z or O, and the history starts as if
+// those had just been dealt.
+const TGM_HISTORY_LENGTH = 4;
+const TGM_REROLLS = 6;
+const TGM_FIRST_PIECES: TetrominoType[] = ["I", "J", "L", "T"];
+const TGM_START_HISTORY: TetrominoType[] = ["Z", "S", "S", "Z"];
+
+export const RANDOMIZERS: Record<RandomizerId, Randomizer> = {
+  bag7: {
+    id: "bag7",
+    name: "7-bag",
+    description: "Every piece once per shuffled bag of seven.",
+    draw: bagDraw(1),
+  },
+  bag14: {
+    id: "bag14",
+    name: "14-bag",
+    description: "Two of each piece per bag; streaks of two can happen.",
+    draw: bagDraw(2),
+  },
+  random: {
+    id: "random",
+    name: "Pure random",
+    description: "Every piece independently at random.",
+    draw: (memory, rng) => ({ type: pick(TETROMINO_SEQUENCE, rng), memory }),
+  },
+  nes: {
+    id: "nes",
+    name: "Classic NES",
+    description: "Rerolls once if it repeats the previous piece.",
+    // Memory is the previous piece. The first roll has an eighth "reroll"
+    // outcome, as on the NES.
+    draw: (memory, rng) => {
+      const index = Math.floor(rng() * (TETROMINO_SEQUENCE.length + 1));
+      let type = TETROMINO_SEQUENCE[index];
+      if (index === TETROMINO_SEQUENCE.length || type === memory[0]) {
+        type = pick(TETROMINO_SEQUENCE, rng);
+      }
+      return { type, memory: [type] };
+    },
+  },
+  tgm: {
+    id: "tgm",
+    name: "TGM history",
+    description: "Avoids the last 4 pieces, trying up to 6 rerolls.",
+    // Memory is the last four pieces, most recent first.
+    draw: (memory, rng) => {
+      if (memory.length === 0) {
+        const first = pick(TGM_FIRST_PIECES, rng);
+        return { type: first, memory: [first, ...TGM_START_HISTORY].slice(0, TGM_HISTORY_LENGTH) };
+      }
+      let type = pick(TETROMINO_SEQUENCE, rng);
+      for (let i = 0; i < TGM_REROLLS && memory.indexOf(type) !== -1; i++) {
+        type = pick(TETROMINO_SEQUENCE, rng);
+      }
+      return { type, memory: [type, ...memory].slice(0, TGM_HISTORY_LENGTH) };
+    },
+  },
+};
+
+// Menu order.
+export const RANDOMIZER_IDS: RandomizerId[] = ["bag7", "bag14", "random", "nes", "tgm"];
+
+// PUBLIC_INTERFACE
+export function getRandomizer(id: RandomizerId): Randomizer {
+  return RANDOMIZERS[id];
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Returns a function that deals pieces with randomizer `id`, keeping its
+ * memory per consumer. Seed it with randomSeededRNG for a fixed sequence.
+ */
+export function createRandomizerRNG(
+  id: RandomizerId,
+  rng: () => number
+): () => TetrominoType {
+  const { draw } = getRandomizer(id);
+  let memory: TetrominoType[] = [];
+  return () => {
+    const drawn = draw(memory, rng);
+    memory = drawn.memory;
+    return drawn.type;
+  };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Pure counterpart of createRandomizerRNG: draws one piece from the given
+ * memory and Mulberry32 state. Nothing is mutated; the caller keeps the
+ * returned memory and rngState.
+ */
+export function drawPiece(
+  id: RandomizerId,
+  memory: TetrominoType[],
+  rngState: number
+): { type: TetrominoType; memory: TetrominoType[]; rngState: number } {
+  let state = rngState;
+  const rng = () => {
+    const r = mulberry32Step(state);
+    state = r.state;
+    return r.value;
+  };
+  const drawn = getRandomizer(id).draw(memory, rng);
+  return { type: drawn.type, memory: drawn.memory, rngState: state };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Tops `queue` up to `length` pieces. Pieces already queued keep their
+ * order, so a longer preview never changes what is dealt.
+ */
+export function fillQueue(
+  id: RandomizerId,
+  queue: TetrominoType[],
+  memory: TetrominoType[],
+  rngState: number,
+  length: number
+): { queue: TetrominoType[]; memory: TetrominoType[]; rngState: number } {
+  const filled = [...queue];
+  let nextMemory = memory;
+  let state = rngState;
+  while (filled.length < length) {
+    const drawn = drawPiece(id, nextMemory, state);
+    filled.push(drawn.type);
+    nextMemory = drawn.memory;
+    state = drawn.rngState;
+  }
+  return { queue: filled, memory: nextMemory, rngState: state };
+}
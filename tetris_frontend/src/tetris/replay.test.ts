@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { FRAME_MS, createGame } from "./game";
+import { createReplayCursor, createReplayRecorder } from "./replay";
+import { InputEvent, PlayerAction, simulate } from "./timeline";
+
+const SEED = 11;
+const FRAMES = 1500;
+
+// A few moves and a hard drop per piece, so pieces lock and lines build up.
+const PATTERN: PlayerAction[] = [
+  { type: "moveLeft" },
+  { type: "rotate", direction: "cw" },
+  { type: "moveRight" },
+  { type: "moveRight" },
+  { type: "hold" },
+  { type: "hardDrop" },
+];
+
+const EVENTS: InputEvent[] = Array.from({ length: Math.floor(FRAMES / 8) }, (_, i) => ({
+  frame: i * 8,
+  action: PATTERN[i % PATTERN.length],
+}));
+
+function recordReplay() {
+  const recorder = createReplayRecorder(createGame(SEED));
+  EVENTS.forEach(recorder.record);
+  return recorder.finish(FRAMES, simulate(SEED, EVENTS, FRAMES, FRAME_MS));
+}
+
+describe("createReplayCursor", () => {
+  it("matches a straight simulation at any frame", () => {
+    const cursor = createReplayCursor(recordReplay());
+    [0, 1, 299, 600, 601, 1234, FRAMES].forEach((frame) => {
+      expect(cursor.stateAt(frame)).toEqual(simulate(SEED, EVENTS, frame, FRAME_MS));
+    });
+  });
+
+  it("gives the same states seeking backwards as playing forwards", () => {
+    const replay = recordReplay();
+    const forwards = createReplayCursor(replay);
+    const played = [1400, 900, 650, 10].map((frame) => forwards.stateAt(frame));
+    const seeking = createReplayCursor(replay);
+    seeking.stateAt(FRAMES);
+    expect([1400, 900, 650, 10].map((frame) => seeking.stateAt(frame))).toEqual(played);
+  });
+
+  it("clamps to the recording", () => {
+    const replay = recordReplay();
+    const cursor = createReplayCursor(replay);
+    expect(cursor.stateAt(FRAMES + 100)).toEqual(cursor.stateAt(FRAMES));
+    expect(cursor.stateAt(-5)).toEqual(createGame(SEED));
+  });
+});
@@ -0,0 +1,143 @@
+//
+// Recorded games: seed + frame-stamped inputs, stored locally and played back
+// through the engine.
+//
+
+import { z } from "zod";
+import { FRAME_MS, GameState, createGame } from "./game";
+import { gameModeIdSchema } from "./modes";
+import { gameRulesSchema } from "./rules";
+import { InputEvent, TimelinePoint, advance, groupByFrame, inputEventSchema } from "./timeline";
+import { readStored, writeStored } from "./storage";
+
+// Bump when a rule change makes old recordings play out differently.
+const REPLAY_VERSION = 1;
+const STORAGE_KEY = "tetris.replays";
+const MAX_STORED_REPLAYS = 10;
+
+// Simulated states kept while seeking, so going backwards is not O(n).
+const CHECKPOINT_EVERY = 600;
+
+export const replaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  seed: z.number().int(),
+  mode: gameModeIdSchema,
+  rules: gameRulesSchema,
+  frameMs: z.number().positive(),
+  // Length of the recording; the final state is at this frame.
+  frames: z.number().int().min(0),
+  events: z.array(inputEventSchema),
+  // Summary for listings; not needed for playback.
+  date: z.string(),
+  score: z.number(),
+  lines: z.number(),
+});
+
+// PUBLIC_INTERFACE
+export type Replay = z.infer<typeof replaySchema>;
+
+// PUBLIC_INTERFACE
+export type ReplayRecorder = {
+  record: (event: InputEvent) => void;
+  // Inputs recorded so far.
+  events: () => InputEvent[];
+  finish: (frames: number, final: GameState) => Replay;
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Collects the inputs of one session. Only inputs that changed the state need
+ * recording: the engine is deterministic, so no-ops replay as no-ops.
+ * `recorded` continues an earlier recording of the same game (after resume).
+ */
+export function createReplayRecorder(
+  game: Pick<GameState, "seed" | "mode" | "rules">,
+  recorded: InputEvent[] = []
+): ReplayRecorder {
+  const { seed, mode, rules } = game;
+  const events: InputEvent[] = [...recorded];
+  return {
+    record: (event) => {
+      events.push(event);
+    },
+    events: () => [...events],
+    finish: (frames, final) => ({
+      version: REPLAY_VERSION,
+      seed,
+      mode,
+      rules,
+      frameMs: FRAME_MS,
+      frames,
+      events: [...events],
+      date: new Date().toISOString(),
+      score: final.score,
+      lines: final.lines,
+    }),
+  };
+}
+
+// PUBLIC_INTERFACE
+export type ReplayCursor = {
+  // Game state at the start of `frame`, clamped to the recording.
+  stateAt: (frame: number) => GameState;
+};
+
+/**
+ * PUBLIC_INTERFACE
+ * Random access into a replay. Forward playback resumes from the last frame;
+ * seeking backwards restarts from the nearest checkpoint.
+ */
+export function createReplayCursor(replay: Replay): ReplayCursor {
+  const byFrame = groupByFrame(replay.events);
+  const checkpoints: TimelinePoint[] = [{ frame: 0, state: createGame(replay.seed, replay.mode, replay.rules) }];
+  let last = checkpoints[0];
+
+  function stateAt(frame: number): GameState {
+    const target = Math.max(0, Math.min(Math.floor(frame), replay.frames));
+    let from = last.frame <= target ? last : checkpoints[0];
+    for (const point of checkpoints) {
+      if (point.frame <= target && point.frame > from.frame) from = point;
+    }
+    while (from.frame < target) {
+      const stop = Math.min(target, (Math.floor(from.frame / CHECKPOINT_EVERY) + 1) * CHECKPOINT_EVERY);
+      from = advance(from, stop, byFrame, replay.frameMs);
+      if (stop % CHECKPOINT_EVERY === 0 && !checkpoints.some((p) => p.frame === stop)) {
+        checkpoints.push(from);
+      }
+    }
+    last = from;
+    return from.state;
+  }
+
+  return { stateAt };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Parses a replay from JSON, returning null if it is malformed or from an
+ * unsupported version.
+ */
+export function parseReplay(json: string): Replay | null {
+  try {
+    const parsed = replaySchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// PUBLIC_INTERFACE
+export function loadReplays(): Replay[] {
+  return readStored(STORAGE_KEY, z.array(replaySchema)) ?? [];
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Stores `replay` as the most recent one, keeping the last few. Storage
+ * failures (private mode, quota) are ignored: replays are a convenience.
+ */
+export function saveReplay(replay: Replay): Replay[] {
+  const replays = [replay, ...loadReplays()].slice(0, MAX_STORED_REPLAYS);
+  writeStored(STORAGE_KEY, replays);
+  return replays;
+}
@@ -0,0 +1,104 @@
+//
+// Rules config: board size, spawn position, lock delay and randomizer. Passed to
+// createGame and kept in the state, so replays and saves carry their rules.
+//
+
+import { z } from "zod";
+import { RandomizerId, randomizerIdSchema } from "./randomizer";
+import { readStored, writeStored } from "./storage";
+
+const BOARD_PRESET_STORAGE_KEY = "tetris.boardPreset";
+const RANDOMIZER_STORAGE_KEY = "tetris.randomizer";
+
+export const BOARD_WIDTH = 10;
+export const BOARD_HEIGHT = 20;
+
+export const gameRulesSchema = z.object({
+  // Visible playfield size.
+  boardWidth: z.number().int().min(4),
+  boardHeight: z.number().int().min(4),
+  // Invisible rows above the playfield that pieces spawn in and the stack
+  // may grow into. Board arrays include them: row `bufferRows` is the top
+  // visible row.
+  bufferRows: z.number().int().min(2),
+  // Left column of a spawning piece's box; null centres it.
+  spawnColumn: z.number().int().min(0).nullable(),
+  // Top row of a spawning piece's box, relative to the top visible row
+  // (negative rows are in the buffer). Kept within [-bufferRows, 0], so a
+  // piece always fits on an empty board.
+  spawnRow: z.number().int().max(0),
+  // Time a piece may rest on the stack before it locks.
+  lockDelayMs: z.number().min(0),
+  // Moves/rotations that may restart the lock timer before the piece falls
+  // to a new lowest row.
+  maxLockResets: z.number().int().min(0),
+  // Piece randomizer; null uses the game mode's own.
+  randomizer: randomizerIdSchema.nullable(),
+}).refine((rules) => rules.spawnRow >= -rules.bufferRows, {
+  message: "spawnRow must not be above the buffer",
+  path: ["spawnRow"],
+});
+
+// PUBLIC_INTERFACE
+export type GameRules = z.infer<typeof gameRulesSchema>;
+
+export const DEFAULT_RULES: GameRules = {
+  boardWidth: BOARD_WIDTH,
+  boardHeight: BOARD_HEIGHT,
+  // As in the guideline: as many hidden rows as visible ones.
+  bufferRows: BOARD_HEIGHT,
+  spawnColumn: null,
+  // Pieces appear with their top row just above the playfield.
+  spawnRow: -1,
+  lockDelayMs: 500,
+  maxLockResets: 15,
+  randomizer: null,
+};
+
+export const boardPresetIdSchema = z.enum(["standard", "narrow", "wide", "tall"]);
+
+// PUBLIC_INTERFACE
+export type BoardPresetId = z.infer<typeof boardPresetIdSchema>;
+
+// Board variants offered in the menu.
+export const BOARD_PRESETS: Record<BoardPresetId, { name: string; width: number; height: number }> = {
+  standard: { name: "Standard 10×20", width: 10, height: 20 },
+  narrow: { name: "Narrow 4×20", width: 4, height: 20 },
+  wide: { name: "Wide 20×20", width: 20, height: 20 },
+  tall: { name: "Tall 10×40", width: 10, height: 40 },
+};
+
+export const BOARD_PRESET_IDS: BoardPresetId[] = ["standard", "narrow", "wide", "tall"];
+
+// PUBLIC_INTERFACE
+export function getPresetRules(preset: BoardPresetId, overrides: Partial<GameRules> = {}): GameRules {
+  const { width, height } = BOARD_PRESETS[preset];
+  return { ...DEFAULT_RULES, boardWidth: width, boardHeight: height, ...overrides };
+}
+
+// Leaderboards only compare games played on the standard board.
+// PUBLIC_INTERFACE
+export function isStandardBoard(rules: GameRules): boolean {
+  return rules.boardWidth === BOARD_WIDTH && rules.boardHeight === BOARD_HEIGHT;
+}
+
+// PUBLIC_INTERFACE
+export function loadBoardPreset(): BoardPresetId | null {
+  return readStored(BOARD_PRESET_STORAGE_KEY, boardPresetIdSchema);
+}
+
+// PUBLIC_INTERFACE
+export function saveBoardPreset(preset: BoardPresetId): void {
+  writeStored(BOARD_PRESET_STORAGE_KEY, preset);
+}
+
+// The randomizer picked in the menu; null means each mode's own.
+// PUBLIC_INTERFACE
+export function loadRandomizerChoice(): RandomizerId | null {
+  return readStored(RANDOMIZER_STORAGE_KEY, randomizerIdSchema.nullable());
+}
+
+// PUBLIC_INTERFACE
+export function saveRandomizerChoice(randomizer: RandomizerId | null): void {
+  writeStored(RANDOMIZER_STORAGE_KEY, randomizer);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { FRAME_MS, GameAction, GameState, step } from "./game";
+import { SAVE_VERSION, savedGameSchema } from "./savegame";
+import { InputEvent, simulate } from "./timeline";
+
+const EVENTS: InputEvent[] = [
+  { frame: 10, action: { type: "hold" } },
+  { frame: 20, action: { type: "rotate", direction: "cw" } },
+  { frame: 30, action: { type: "hardDrop" } },
+  { frame: 40, action: { type: "moveLeft" } },
+  { frame: 50, action: { type: "hardDrop" } },
+  { frame: 60, action: { type: "rotate", direction: "180" } },
+];
+
+// Through JSON and the schema, as saveGame and loadSavedGame store it.
+function roundTrip(state: GameState) {
+  const saved = { version: SAVE_VERSION, savedAt: "2024-01-01T00:00:00.000Z", state, frames: 70, events: EVENTS };
+  return savedGameSchema.parse(JSON.parse(JSON.stringify(saved)));
+}
+
+describe("savedGameSchema", () => {
+  it("restores the exact state", () => {
+    const state = simulate(3, EVENTS, 70, FRAME_MS, "sprint");
+    const loaded = roundTrip(state);
+    expect(loaded.state).toEqual(state);
+    expect(loaded.events).toEqual(EVENTS);
+  });
+
+  it("restores a game that plays on identically", () => {
+    const state = simulate(3, EVENTS, 70, FRAME_MS);
+    let original = state;
+    let resumed = roundTrip(state).state;
+    for (let i = 0; i < 600; i++) {
+      const action: GameAction = i % 60 === 59 ? { type: "hardDrop" } : { type: "tick", ms: FRAME_MS };
+      original = step(original, action);
+      resumed = step(resumed, action);
+    }
+    expect(resumed).toEqual(original);
+    expect(original.lastLock).not.toBe(state.lastLock);
+  });
+
+  it("rejects other versions", () => {
+    const state = simulate(3, EVENTS, 70, FRAME_MS);
+    const saved = { version: SAVE_VERSION - 1, savedAt: "", state, frames: 70, events: EVENTS };
+    expect(savedGameSchema.safeParse(saved).success).toBe(false);
+  });
+});
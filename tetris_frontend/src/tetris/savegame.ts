@@ -0,0 +1,122 @@
+//
+// Save/resume of an in-progress game: the complete reducer state (board,
+// queue, randomizer memory and PRNG position included) plus the recording so far, as
+// versioned JSON in localStorage.
+//
+
+import { z } from "zod";
+import { GameState } from "./game";
+import { gameEndReasonSchema, gameModeIdSchema } from "./modes";
+import { randomizerIdSchema } from "./randomizer";
+import { gameRulesSchema } from "./rules";
+import { InputEvent, inputEventSchema } from "./timeline";
+import { readStored, removeStored, writeStored } from "./storage";
+
+// Bump when GameState changes shape; older saves are then ignored.
+export const SAVE_VERSION = 1;
+const SAVE_STORAGE_KEY = "tetris.savedGame";
+
+const tetrominoTypeSchema = z.enum(["I", "O", "T", "S", "Z", "J", "L"]);
+
+const cellSchema = tetrominoTypeSchema.nullable();
+
+const positionSchema = z.object({ x: z.number().int(), y: z.number().int() });
+
+const pieceSchema = z.object({
+  type: tetrominoTypeSchema,
+  shape: z.array(z.array(z.number())),
+  pos: positionSchema,
+  rotation: z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)]),
+});
+
+const clearEventSchema = z.object({
+  lines: z.number().int(),
+  spin: z.enum(["none", "mini", "full"]),
+  perfectClear: z.boolean(),
+  combo: z.number().int(),
+  backToBack: z.boolean(),
+  points: z.number(),
+  labels: z.array(z.string()),
+});
+
+export const gameStateSchema: z.ZodType<GameState, z.ZodTypeDef, unknown> = z.object({
+  board: z.array(z.array(cellSchema)),
+  piece: pieceSchema.nullable(),
+  queue: z.array(tetrominoTypeSchema),
+  holdType: tetrominoTypeSchema.nullable(),
+  holdUsed: z.boolean(),
+  randomizer: randomizerIdSchema,
+  randomizerMemory: z.array(tetrominoTypeSchema),
+  rngState: z.number().int(),
+  seed: z.number().int(),
+  customSeed: z.boolean(),
+  mode: gameModeIdSchema,
+  score: z.number(),
+  lines: z.number().int(),
+  level: z.number().int(),
+  status: z.enum(["running", "paused", "gameover"]),
+  endReason: gameEndReasonSchema.nullable(),
+  elapsedMs: z.number(),
+  rules: gameRulesSchema,
+  gravityElapsed: z.number(),
+  lockElapsed: z.number(),
+  lockResets: z.number(),
+  lowestY: z.number(),
+  combo: z.number().int(),
+  backToBack: z.boolean(),
+  lastRotation: z
+    .object({ direction: z.enum(["cw", "ccw", "180"]), kick: z.number().int() })
+    .nullable(),
+  lastClear: clearEventSchema.nullable(),
+  lastLock: z
+    .object({
+      cells: z.array(positionSchema),
+      clearedRows: z.array(z.number().int()),
+      clearedCells: z.array(z.array(cellSchema)),
+      dropDistance: z.number().int(),
+      levelUp: z.number().int().nullable(),
+    })
+    .nullable(),
+});
+
+export const savedGameSchema = z.object({
+  version: z.literal(SAVE_VERSION),
+  savedAt: z.string(),
+  state: gameStateSchema,
+  // Recording so far, so the resumed game still replays from frame 0.
+  frames: z.number().int().min(0),
+  events: z.array(inputEventSchema),
+});
+
+// PUBLIC_INTERFACE
+export type SavedGame = z.infer<typeof savedGameSchema>;
+
+/**
+ * PUBLIC_INTERFACE
+ * Stores the game as the one to resume. Finished games are not resumable,
+ * so saving one clears the slot instead.
+ */
+export function saveGame(state: GameState, frames: number, events: InputEvent[]): void {
+  if (state.status === "gameover") {
+    clearSavedGame();
+    return;
+  }
+  const saved: SavedGame = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+    frames,
+    events,
+  };
+  writeStored(SAVE_STORAGE_KEY, saved);
+}
+
+// PUBLIC_INTERFACE
+export function loadSavedGame(): SavedGame | null {
+  return readStored(SAVE_STORAGE_KEY, savedGameSchema);
+}
+
+// PUBLIC_INTERFACE
+export function clearSavedGame(): void {
+  removeStored(SAVE_STORAGE_KEY);
+}
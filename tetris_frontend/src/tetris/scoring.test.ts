@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyBoard } from "./engine";
+import { createGame, step } from "./game";
+import { detectTSpin } from "./scoring";
+import { getShape } from "./srs";
+import { Board, PieceState, RotationState } from "./types";
+
+// A 10x40 board whose bottom rows are drawn as strings, "X" for a block.
+function boardWithRows(rows: string[]): Board {
+  const board = createEmptyBoard(40, 10);
+  rows.forEach((row, i) => {
+    const y = board.length - rows.length + i;
+    board[y] = row.split("").map((c) => (c === "X" ? "O" : null));
+  });
+  return board;
+}
+
+// A T-spin double slot: the T fits pointing down into the three-wide gap,
+// under the overhang at column 3.
+const TSD_SLOT = ["XXXX......", "XXX...XXXX", "XXXX.XXXXX"];
+
+function tAt(rotation: RotationState, x: number, y: number): PieceState {
+  return { type: "T", shape: getShape("T", rotation), pos: { x, y }, rotation };
+}
+
+describe("detectTSpin", () => {
+  const board = boardWithRows(TSD_SLOT);
+  const spun = { direction: "cw" as const, kick: 0 };
+
+  it("is a full T-spin with both front corners blocked", () => {
+    expect(detectTSpin(board, tAt(2, 3, 37), spun)).toBe("full");
+  });
+
+  it("is a mini with only one front corner blocked", () => {
+    expect(detectTSpin(board, tAt(0, 3, 37), spun)).toBe("mini");
+  });
+
+  it("upgrades a mini reached through the last kick", () => {
+    expect(detectTSpin(board, tAt(0, 3, 37), { direction: "cw", kick: 4 })).toBe("full");
+  });
+
+  it("needs a rotation as the last move", () => {
+    expect(detectTSpin(board, tAt(2, 3, 37), null)).toBe("none");
+  });
+
+  it("needs three corners", () => {
+    expect(detectTSpin(boardWithRows(["XXXX.XXXXX"]), tAt(2, 3, 37), spun)).toBe("none");
+  });
+});
+
+describe("T-spin scoring", () => {
+  it("scores a T-spin double through the reducer", () => {
+    const start = createGame(1);
+    const state = { ...start, board: boardWithRows(TSD_SLOT), piece: tAt(1, 3, 37) };
+    const spun = step(step(state, { type: "rotate", direction: "cw" }), { type: "hardDrop" });
+    expect(spun.lastClear).toMatchObject({ lines: 2, spin: "full", labels: ["T-SPIN DOUBLE"] });
+    expect(spun.score - state.score).toBe(1200);
+    expect(spun.backToBack).toBe(true);
+    // The cleared rows as they were, for the line-clear effect.
+    expect(spun.lastLock!.clearedCells.map((row) => row.join(""))).toEqual(["OOOTTTOOOO", "OOOOTOOOOO"]);
+  });
+});
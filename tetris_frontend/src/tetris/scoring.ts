@@ -0,0 +1,137 @@
+//
+// Guideline scoring: T-spin detection, combos, back-to-back and perfect
+// clears. Pure functions used by the reducer when a piece locks.
+//
+
+import { Board, PieceState, RotationDirection } from "./types";
+
+// PUBLIC_INTERFACE
+export type SpinType = "none" | "mini" | "full";
+
+// The last successful manoeuvre of the active piece, if it was a rotation.
+// PUBLIC_INTERFACE
+export type LastRotation = { direction: RotationDirection; kick: number };
+
+// PUBLIC_INTERFACE
+export type ClearEvent = {
+  lines: number;
+  spin: SpinType;
+  perfectClear: boolean;
+  // Consecutive line-clearing locks before this one (0 = first clear).
+  combo: number;
+  backToBack: boolean;
+  points: number;
+  // Pop-up text, most important first, e.g. ["T-SPIN DOUBLE", "B2B"].
+  labels: string[];
+};
+
+// Guideline base points, multiplied by level (1-based).
+const LINE_POINTS = [0, 100, 300, 500, 800];
+const T_SPIN_POINTS = [400, 800, 1200, 1600];
+const MINI_T_SPIN_POINTS = [100, 200, 400];
+const PERFECT_CLEAR_POINTS = [0, 800, 1200, 1800, 2000];
+const B2B_PERFECT_TETRIS_POINTS = 3200;
+const COMBO_POINTS = 50;
+const B2B_MULTIPLIER = 1.5;
+
+export const SOFT_DROP_POINTS = 1;
+export const HARD_DROP_POINTS = 2;
+
+const LINE_NAMES = ["", "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"];
+
+// Corners of the T's 3x3 box as [x, y]: top-left, top-right, bottom-right,
+// bottom-left. The two "front" corners for each rotation follow.
+const CORNERS: [number, number][] = [[0, 0], [2, 0], [2, 2], [0, 2]];
+const FRONT_CORNERS: [number, number][] = [[0, 1], [1, 2], [2, 3], [3, 0]];
+
+// The SRS kick that lets a T fire into a deep slot (TST / fin) always
+// counts as a full T-spin.
+const UPGRADE_KICK = 4;
+
+function isBlocked(board: Board, x: number, y: number): boolean {
+  if (x < 0 || x >= board[0].length || y >= board.length) return true;
+  if (y < 0) return false;
+  return board[y][x] !== null;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * 3-corner rule: a T that last moved by rotating and has 3 of the 4 corners
+ * around its centre blocked is a T-spin; it is a mini unless both corners it
+ * points towards are blocked (or it got there through the upgrade kick).
+ * `board` is the board before the piece is merged.
+ */
+export function detectTSpin(
+  board: Board,
+  piece: PieceState,
+  lastRotation: LastRotation | null
+): SpinType {
+  if (piece.type !== "T" || !lastRotation) return "none";
+  const blocked = CORNERS.map(([cx, cy]) => isBlocked(board, piece.pos.x + cx, piece.pos.y + cy));
+  if (blocked.filter(Boolean).length < 3) return "none";
+  const [a, b] = FRONT_CORNERS[piece.rotation];
+  if (blocked[a] && blocked[b]) return "full";
+  if (lastRotation.direction !== "180" && lastRotation.kick === UPGRADE_KICK) return "full";
+  return "mini";
+}
+
+function isBoardEmpty(board: Board): boolean {
+  return board.every((row) => row.every((cell) => cell === null));
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Scores one lock. `combo` is the running combo before this lock (-1 when
+ * the previous lock cleared nothing) and `backToBack` whether the last
+ * line clear was a "difficult" one. Returns null when nothing scores.
+ */
+export function scoreLock(params: {
+  lines: number;
+  spin: SpinType;
+  boardAfter: Board;
+  level: number;
+  combo: number;
+  backToBack: boolean;
+}): { event: ClearEvent | null; combo: number; backToBack: boolean } {
+  const { lines, spin, boardAfter, combo, backToBack } = params;
+  const multiplier = params.level + 1;
+  if (lines === 0) {
+    if (spin === "none") return { event: null, combo: -1, backToBack };
+    // Spins without lines score and, like any lock without lines, break the
+    // combo; the B2B chain is left alone.
+    const points = (spin === "full" ? T_SPIN_POINTS[0] : MINI_T_SPIN_POINTS[0]) * multiplier;
+    const label = spin === "full" ? "T-SPIN" : "MINI T-SPIN";
+    return {
+      event: { lines, spin, perfectClear: false, combo: -1, backToBack: false, points, labels: [label] },
+      combo: -1,
+      backToBack,
+    };
+  }
+
+  const difficult = lines === 4 || spin !== "none";
+  const b2b = difficult && backToBack;
+  const nextCombo = combo + 1;
+  const perfectClear = isBoardEmpty(boardAfter);
+
+  let base = LINE_POINTS[lines];
+  if (spin === "full") base = T_SPIN_POINTS[lines];
+  if (spin === "mini") base = MINI_T_SPIN_POINTS[lines] ?? base;
+  let points = (b2b ? base * B2B_MULTIPLIER : base) * multiplier;
+  points += COMBO_POINTS * nextCombo * multiplier;
+  if (perfectClear) {
+    const bonus = b2b && lines === 4 ? B2B_PERFECT_TETRIS_POINTS : PERFECT_CLEAR_POINTS[lines];
+    points += bonus * multiplier;
+  }
+
+  const prefix = spin === "full" ? "T-SPIN " : spin === "mini" ? "MINI T-SPIN " : "";
+  const labels = [prefix + LINE_NAMES[lines]];
+  if (b2b) labels.push("B2B");
+  if (nextCombo > 0) labels.push(`COMBO x${nextCombo}`);
+  if (perfectClear) labels.push("PERFECT CLEAR");
+
+  return {
+    event: { lines, spin, perfectClear, combo: nextCombo, backToBack: b2b, points, labels },
+    combo: nextCombo,
+    backToBack: difficult,
+  };
+}
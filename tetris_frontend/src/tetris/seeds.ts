@@ -0,0 +1,52 @@
+//
+// Game seeds: random ones, ones typed in by the player, and the daily
+// challenge seed everybody shares on a given (UTC) day.
+//
+
+// Seeds are kept below 2^31 so they read as plain positive numbers.
+const MAX_SEED = 0x7fffffff;
+
+// PUBLIC_INTERFACE
+export function randomSeed(): number {
+  return Date.now() % 654321;
+}
+
+// FNV-1a, to turn arbitrary text into a seed.
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & MAX_SEED;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Reads a seed the player typed or pasted: a number is used as is, any
+ * other text is hashed, so words work as seeds too. Null for blank input.
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  if (/^\d+$/.test(trimmed) && Number(trimmed) <= MAX_SEED) return Number(trimmed);
+  return hashText(trimmed);
+}
+
+function pad2(n: number): string {
+  return n < 10 ? `0${n}` : `${n}`;
+}
+
+// PUBLIC_INTERFACE
+export function getDailyKey(date: Date = new Date()): string {
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Seed of the daily challenge: derived from the UTC date, so every player
+ * gets the same pieces until midnight UTC.
+ */
+export function getDailySeed(date: Date = new Date()): number {
+  return hashText(`daily:${getDailyKey(date)}`);
+}
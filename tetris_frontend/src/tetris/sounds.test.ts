@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { getMusicTempo, layoutMusic } from "./sounds";
+
+// At 30 fps the level 0 loop (120 bpm, 16 s) has bars of 60 frames and the
+// level 1 loop (128 bpm, 15 s) bars of 56.25 frames.
+const FPS = 30;
+const SLOW = getMusicTempo(0);
+const FAST = getMusicTempo(1);
+
+describe("layoutMusic", () => {
+  it("plays one level as a single loop from bar 1", () => {
+    expect(layoutMusic([{ from: 0, to: 900, level: 0 }], FPS)).toEqual([
+      { from: 0, to: 900, bpm: SLOW, startFrom: 0 },
+    ]);
+  });
+
+  it("changes tempo at the next bar and carries on from that bar", () => {
+    const clips = layoutMusic([{ from: 0, to: 100, level: 0 }, { from: 100, to: 2000, level: 1 }], FPS);
+    expect(clips).toEqual([
+      // Bar 3 of the old loop starts at frame 120...
+      { from: 0, to: 120, bpm: SLOW, startFrom: 0 },
+      // ...and the new loop comes in at its bar 3, until the loop ends...
+      { from: 120, to: 458, bpm: FAST, startFrom: 113 },
+      // ...then loops from the top.
+      { from: 458, to: 2000, bpm: FAST, startFrom: 0 },
+    ]);
+  });
+
+  it("starts over after a stop", () => {
+    const clips = layoutMusic([{ from: 0, to: 100, level: 0 }, { from: 150, to: 300, level: 1 }], FPS);
+    expect(clips).toEqual([
+      { from: 0, to: 100, bpm: SLOW, startFrom: 0 },
+      { from: 150, to: 300, bpm: FAST, startFrom: 0 },
+    ]);
+  });
+});
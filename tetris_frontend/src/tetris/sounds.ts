@@ -0,0 +1,340 @@
+//
+// Procedural chiptune audio: sound effects and the background track are
+// lists of tones rendered to samples here, so the live game (audio.ts) and
+// the gameplay video play exactly the same sounds without any assets.
+//
+
+import { GameState } from "./game";
+import { PlayerAction, TimelinePoint, advance } from "./timeline";
+
+// PUBLIC_INTERFACE
+export type SoundId =
+  | "move"
+  | "rotate"
+  | "lock"
+  | "clear1"
+  | "clear2"
+  | "clear3"
+  | "clear4"
+  | "tspin"
+  | "levelUp"
+  | "gameOver";
+
+export type Wave = "square" | "triangle" | "sawtooth" | "noise";
+
+// One note: `freq` slides linearly to `to` over `length` seconds, starting
+// `at` seconds in. Noise uses `freq` as its sample-and-hold rate.
+export type Tone = {
+  wave: Wave;
+  freq: number;
+  to?: number;
+  at: number;
+  length: number;
+  gain: number;
+};
+
+// PUBLIC_INTERFACE
+export const SAMPLE_RATE = 22050;
+
+const ATTACK_SECONDS = 0.004;
+
+// Frequency of a MIDI note number (69 = A4).
+function midi(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+// Quick rising arpeggio; `notes` are MIDI numbers.
+function arpeggio(notes: number[], spacing: number, length: number, gain: number, wave: Wave = "square"): Tone[] {
+  return notes.map((note, i) => ({ wave, freq: midi(note), at: i * spacing, length, gain }));
+}
+
+const CLEAR_NOTES = [72, 76, 79, 84, 88];
+
+export const SOUNDS: Record<SoundId, Tone[]> = {
+  move: [{ wave: "square", freq: 440, at: 0, length: 0.03, gain: 0.1 }],
+  rotate: [{ wave: "square", freq: 620, to: 900, at: 0, length: 0.05, gain: 0.1 }],
+  lock: [
+    { wave: "noise", freq: 2400, at: 0, length: 0.06, gain: 0.22 },
+    { wave: "triangle", freq: 140, to: 60, at: 0, length: 0.09, gain: 0.45 },
+  ],
+  clear1: arpeggio(CLEAR_NOTES.slice(0, 2), 0.05, 0.12, 0.18),
+  clear2: arpeggio(CLEAR_NOTES.slice(0, 3), 0.05, 0.12, 0.18),
+  clear3: arpeggio(CLEAR_NOTES.slice(0, 4), 0.05, 0.13, 0.18),
+  clear4: [
+    ...arpeggio(CLEAR_NOTES, 0.05, 0.14, 0.18),
+    ...arpeggio([84, 88, 91], 0, 0.45, 0.1).map((tone) => ({ ...tone, at: 0.26 })),
+    { wave: "noise", freq: 6000, at: 0, length: 0.4, gain: 0.12 },
+  ],
+  tspin: [
+    { wave: "sawtooth", freq: 300, to: 1100, at: 0, length: 0.16, gain: 0.12 },
+    ...arpeggio([79, 83, 86], 0.06, 0.12, 0.15).map((tone) => ({ ...tone, at: tone.at + 0.12 })),
+  ],
+  levelUp: [
+    ...arpeggio([67, 72, 76], 0.08, 0.1, 0.16),
+    { wave: "square", freq: midi(79), at: 0.24, length: 0.35, gain: 0.16 },
+    { wave: "triangle", freq: midi(55), at: 0.24, length: 0.35, gain: 0.3 },
+  ],
+  gameOver: [
+    ...arpeggio([72, 67, 64, 60], 0.18, 0.22, 0.16),
+    { wave: "sawtooth", freq: 220, to: 55, at: 0.72, length: 0.8, gain: 0.12 },
+    { wave: "noise", freq: 800, at: 0.72, length: 0.6, gain: 0.08 },
+  ],
+};
+
+// Background track: the first part of Korobeiniki over an octave-bouncing
+// bass and a hi-hat/kick beat. Durations are in eighth notes; null rests.
+const MELODY: [number | null, number][] = [
+  [76, 2], [71, 1], [72, 1], [74, 2], [72, 1], [71, 1],
+  [69, 2], [69, 1], [72, 1], [76, 2], [74, 1], [72, 1],
+  [71, 3], [72, 1], [74, 2], [76, 2],
+  [72, 2], [69, 2], [69, 4],
+  [null, 1], [74, 2], [77, 1], [81, 2], [79, 1], [77, 1],
+  [76, 3], [72, 1], [76, 2], [74, 1], [72, 1],
+  [71, 2], [71, 1], [72, 1], [74, 2], [76, 2],
+  [72, 2], [69, 2], [69, 2], [null, 2],
+];
+const BASS_ROOTS = [40, 45, 44, 45, 38, 36, 44, 45];
+const STEPS_PER_BAR = 8;
+// PUBLIC_INTERFACE
+export const MUSIC_BARS = BASS_ROOTS.length;
+
+const MUSIC_BASE_BPM = 120;
+const MUSIC_BPM_PER_LEVEL = 8;
+const MUSIC_MAX_BPM = 220;
+
+/**
+ * PUBLIC_INTERFACE
+ * Tempo of the background track at `level` (0-based): faster as the game
+ * speeds up, up to a cap.
+ */
+export function getMusicTempo(level: number): number {
+  return Math.min(MUSIC_BASE_BPM + level * MUSIC_BPM_PER_LEVEL, MUSIC_MAX_BPM);
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * One loop of the background track at `bpm`, and its length in seconds.
+ */
+export function getMusicLoop(bpm: number): { tones: Tone[]; length: number } {
+  const step = 60 / bpm / 2;
+  const tones: Tone[] = [];
+  let at = 0;
+  for (const [note, steps] of MELODY) {
+    if (note !== null) tones.push({ wave: "square", freq: midi(note), at, length: steps * step * 0.9, gain: 0.09 });
+    at += steps * step;
+  }
+  BASS_ROOTS.forEach((root, bar) => {
+    for (let i = 0; i < STEPS_PER_BAR; i++) {
+      const start = (bar * STEPS_PER_BAR + i) * step;
+      const note = i % 2 === 0 ? root : root + 12;
+      tones.push({ wave: "triangle", freq: midi(note), at: start, length: step * 0.85, gain: 0.22 });
+      tones.push({ wave: "noise", freq: 9000, at: start, length: 0.03, gain: i % 2 === 0 ? 0.04 : 0.025 });
+      if (i % 4 === 0) tones.push({ wave: "triangle", freq: 150, to: 45, at: start, length: 0.1, gain: 0.35 });
+    }
+  });
+  return { tones, length: MUSIC_BARS * STEPS_PER_BAR * step };
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Renders tones to mono samples in [-1, 1]. Noise comes from a fixed
+ * generator, so the same tones always give the same samples.
+ */
+export function renderTones(tones: Tone[], seconds: number, sampleRate = SAMPLE_RATE): Float32Array {
+  const out = new Float32Array(Math.ceil(seconds * sampleRate));
+  for (const tone of tones) {
+    const first = Math.floor(tone.at * sampleRate);
+    const count = Math.min(Math.ceil(tone.length * sampleRate), out.length - first);
+    const to = tone.to ?? tone.freq;
+    let phase = 0;
+    let noise = 1;
+    let held = 0;
+    for (let i = 0; i < count; i++) {
+      const t = i / sampleRate;
+      const progress = t / tone.length;
+      const freq = tone.freq + (to - tone.freq) * progress;
+      const next = phase + freq / sampleRate;
+      let value: number;
+      switch (tone.wave) {
+        case "square":
+          value = phase < 0.5 ? 1 : -1;
+          break;
+        case "triangle":
+          value = 4 * Math.abs(phase - 0.5) - 1;
+          break;
+        case "sawtooth":
+          value = 2 * phase - 1;
+          break;
+        case "noise":
+          // 15-bit LFSR like the NES noise channel, clocked at `freq`.
+          if (next >= 1 || i === 0) {
+            noise = (noise >> 1) | (((noise ^ (noise >> 1)) & 1) << 14);
+            held = noise & 1 ? 1 : -1;
+          }
+          value = held;
+          break;
+      }
+      phase = next % 1;
+      const envelope = Math.min(1, t / ATTACK_SECONDS) * (1 - progress);
+      out[first + i] += value * tone.gain * envelope;
+    }
+  }
+  for (let i = 0; i < out.length; i++) out[i] = Math.max(-1, Math.min(1, out[i]));
+  return out;
+}
+
+// PUBLIC_INTERFACE
+export function getSoundLength(sound: SoundId): number {
+  return SOUNDS[sound].reduce((end, tone) => Math.max(end, tone.at + tone.length), 0);
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function toBase64(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    out += BASE64[a >> 2] + BASE64[((a & 3) << 4) | (b >> 4)];
+    out += i + 1 < bytes.length ? BASE64[((b & 15) << 2) | (c >> 6)] : "=";
+    out += i + 2 < bytes.length ? BASE64[c & 63] : "=";
+  }
+  return out;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Samples as a 16-bit mono WAV data URI, for <Audio> in the video.
+ */
+export function toWavDataUri(samples: Float32Array, sampleRate = SAMPLE_RATE): string {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) bytes[offset + i] = value.charCodeAt(i);
+  };
+  text(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, Math.round(sample * 32767), true));
+  return `data:audio/wav;base64,${toBase64(bytes)}`;
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * The sounds a change from `prev` to `next` should make: lock, clear and
+ * level-up sounds for a new lock, otherwise shifts and rotations of the
+ * active piece, and the game-over jingle.
+ */
+export function getStepSounds(prev: GameState, next: GameState): SoundId[] {
+  const sounds: SoundId[] = [];
+  const lock = next.lastLock;
+  if (lock && lock !== prev.lastLock) {
+    sounds.push("lock");
+    const clear = next.lastClear;
+    if (clear && clear.spin !== "none") sounds.push("tspin");
+    else if (lock.clearedRows.length > 0) {
+      sounds.push(`clear${Math.min(lock.clearedRows.length, 4)}` as SoundId);
+    }
+    if (lock.levelUp !== null) sounds.push("levelUp");
+  } else if (prev.piece && next.piece && prev.piece.type === next.piece.type && prev.holdType === next.holdType) {
+    if (next.piece.rotation !== prev.piece.rotation) sounds.push("rotate");
+    else if (next.piece.pos.x !== prev.piece.pos.x) sounds.push("move");
+  }
+  if (prev.status !== "gameover" && next.status === "gameover") sounds.push("gameOver");
+  return sounds;
+}
+
+// PUBLIC_INTERFACE
+export type SoundCue = { frame: number; sound: SoundId };
+
+// Frames [from, to) during which the track plays at one level.
+// PUBLIC_INTERFACE
+export type MusicSegment = { from: number; to: number; level: number };
+
+/**
+ * PUBLIC_INTERFACE
+ * Simulates frames [start.frame, toFrame) and lists when each sound plays
+ * and when the music runs (while the game is running) at which level.
+ */
+export function collectSoundCues(
+  start: TimelinePoint,
+  toFrame: number,
+  byFrame: Map<number, PlayerAction[]>,
+  frameMs: number
+): { effects: SoundCue[]; music: MusicSegment[] } {
+  const effects: SoundCue[] = [];
+  const music: MusicSegment[] = [];
+  let point = start;
+  for (let frame = start.frame; frame < toFrame; frame++) {
+    const state = point.state;
+    const last = music[music.length - 1];
+    if (state.status === "running") {
+      if (last && last.to === frame && last.level === state.level) last.to = frame + 1;
+      else music.push({ from: frame, to: frame + 1, level: state.level });
+    }
+    point = advance(point, frame + 1, byFrame, frameMs);
+    for (const sound of getStepSounds(state, point.state)) effects.push({ frame, sound });
+  }
+  return { effects, music };
+}
+
+// Frames [from, to) of the track at `bpm`, starting `startFrom` frames into
+// its loop. A clip that starts mid-loop ends with the loop, so it can be
+// played looped either way.
+// PUBLIC_INTERFACE
+export type MusicClip = { from: number; to: number; bpm: number; startFrom: number };
+
+/**
+ * PUBLIC_INTERFACE
+ * Lays out the music segments as the live player (audio.ts) plays them: a
+ * tempo change waits for the next bar and carries on from the same bar of
+ * the new loop, and after a stop the track starts again from bar 1.
+ */
+export function layoutMusic(segments: MusicSegment[], fps: number): MusicClip[] {
+  // Unbroken playback of one loop; its bar 1 began at `startedAt`.
+  type Run = { from: number; to: number; bpm: number; frames: number; startedAt: number };
+  const runs: Run[] = [];
+  for (const { from, to, level } of segments) {
+    const bpm = getMusicTempo(level);
+    const frames = getMusicLoop(bpm).length * fps;
+    const last = runs[runs.length - 1];
+    if (!last || last.to !== from) {
+      runs.push({ from, to, bpm, frames, startedAt: from });
+    } else if (last.bpm === bpm) {
+      last.to = to;
+    } else {
+      const bar = last.frames / MUSIC_BARS;
+      const bars = Math.ceil((from - last.startedAt) / bar);
+      const when = Math.min(last.startedAt + bars * bar, to);
+      last.to = when;
+      runs.push({ from: when, to, bpm, frames, startedAt: when - ((bars % MUSIC_BARS) * frames) / MUSIC_BARS });
+    }
+  }
+
+  const clips: MusicClip[] = [];
+  const push = (from: number, to: number, bpm: number, startFrom: number) => {
+    const clip = { from: Math.round(from), to: Math.round(to), bpm, startFrom: Math.round(startFrom) };
+    if (clip.to > clip.from) clips.push(clip);
+  };
+  for (const run of runs) {
+    let from = run.from;
+    const offset = (run.from - run.startedAt) % run.frames;
+    if (offset > 0) {
+      from = Math.min(run.to, run.from + run.frames - offset);
+      push(run.from, from, run.bpm, offset);
+    }
+    push(from, run.to, run.bpm, 0);
+  }
+  return clips;
+}
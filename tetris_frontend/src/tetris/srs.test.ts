@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyBoard } from "./engine";
+import { getShape, tryRotate } from "./srs";
+import { PieceState, RotationState, TetrominoType } from "./types";
+
+function pieceAt(type: TetrominoType, rotation: RotationState, x: number, y: number): PieceState {
+  return { type, shape: getShape(type, rotation), pos: { x, y }, rotation };
+}
+
+describe("tryRotate", () => {
+  const board = createEmptyBoard(20, 10);
+
+  it("rotates in place when nothing is in the way", () => {
+    const rotated = tryRotate(board, pieceAt("T", 0, 3, 5), "cw");
+    expect(rotated).toEqual({ piece: pieceAt("T", 1, 3, 5), kick: 0 });
+  });
+
+  it("kicks a T off the left wall", () => {
+    // Vertical against the wall; flat it would stick out by one column.
+    const rotated = tryRotate(board, pieceAt("T", 1, -1, 5), "ccw");
+    expect(rotated).toEqual({ piece: pieceAt("T", 0, 0, 5), kick: 1 });
+  });
+
+  it("uses the I table, which differs from the JLSTZ one", () => {
+    const rotated = tryRotate(board, pieceAt("I", 1, -2, 5), "cw");
+    expect(rotated).toEqual({ piece: pieceAt("I", 2, 0, 5), kick: 2 });
+  });
+
+  it("kicks up off the floor on a 180° turn", () => {
+    const rotated = tryRotate(board, pieceAt("T", 0, 3, 18), "180");
+    expect(rotated).toEqual({ piece: pieceAt("T", 2, 3, 17), kick: 1 });
+  });
+
+  it("fails when every kick is blocked", () => {
+    // Too shallow for an upright I anywhere.
+    expect(tryRotate(createEmptyBoard(3, 10), pieceAt("I", 0, 3, 0), "cw")).toBeNull();
+  });
+});
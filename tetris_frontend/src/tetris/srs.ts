@@ -0,0 +1,85 @@
+//
+// Super Rotation System: rotation states and wall kick tables.
+//
+
+import { Board, PieceState, RotationDirection, RotationState, TetrominoType } from "./types";
+import { getTetromino, isValidPosition, rotate } from "./engine";
+
+// Kick offsets as listed in the guideline, with +y pointing UP. They are
+// flipped when applied because board rows grow downwards.
+type KickTable = Record<string, [number, number][]>;
+
+const JLSTZ_KICKS: KickTable = {
+  "01": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  "10": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  "12": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  "21": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  "23": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  "32": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  "30": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  "03": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+};
+
+const I_KICKS: KickTable = {
+  "01": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  "10": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  "12": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+  "21": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  "23": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  "32": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  "30": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  "03": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+};
+
+// 180° rotation is not part of the original guideline; this is the widely
+// used SRS+ table.
+const HALF_TURN_KICKS: KickTable = {
+  "02": [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  "13": [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  "20": [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  "31": [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]],
+};
+
+const TURNS: Record<RotationDirection, number> = { cw: 1, "180": 2, ccw: 3 };
+
+// PUBLIC_INTERFACE
+export function getShape(type: TetrominoType, rotation: RotationState): number[][] {
+  let shape = getTetromino(type).shape.map((row) => [...row]);
+  for (let i = 0; i < rotation; i++) shape = rotate(shape);
+  return shape;
+}
+
+function getKicks(
+  type: TetrominoType,
+  from: RotationState,
+  to: RotationState
+): [number, number][] {
+  if (type === "O") return [[0, 0]];
+  const key = `${from}${to}`;
+  if (HALF_TURN_KICKS[key]) return HALF_TURN_KICKS[key];
+  return (type === "I" ? I_KICKS : JLSTZ_KICKS)[key];
+}
+
+/**
+ * PUBLIC_INTERFACE
+ * Rotates `piece` in `direction`, trying each SRS kick in order. Returns the
+ * rotated piece and the index of the kick that succeeded (0 = no kick), or
+ * null when every test position is blocked.
+ */
+export function tryRotate(
+  board: Board,
+  piece: PieceState,
+  direction: RotationDirection
+): { piece: PieceState; kick: number } | null {
+  const to = ((piece.rotation + TURNS[direction]) % 4) as RotationState;
+  const shape = getShape(piece.type, to);
+  const kicks = getKicks(piece.type, piece.rotation, to);
+  for (let i = 0; i < kicks.length; i++) {
+    const [dx, dy] = kicks[i];
+    const pos = { x: piece.pos.x + dx, y: piece.pos.y - dy };
+    if (isValidPosition(board, shape, pos)) {
+      return { piece: { ...piece, shape, pos, rotation: to }, kick: i };
+    }
+  }
+  return null;
+}
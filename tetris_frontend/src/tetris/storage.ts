@@ -0,0 +1,36 @@
+//
+// Small localStorage helpers. Stored data is validated on the way in, and
+// storage failures (private mode, quota, no window) are never fatal.
+//
+
+import { z } from "zod";
+
+// PUBLIC_INTERFACE
+export function readStored<T extends z.ZodTypeAny>(key: string, schema: T): z.infer<T> | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (raw === null) return null;
+    const parsed = schema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// PUBLIC_INTERFACE
+export function writeStored(key: string, value: unknown): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Ignore: settings still apply for this session.
+  }
+}
+
+// PUBLIC_INTERFACE
+export function removeStored(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Ignore, as above.
+  }
+}
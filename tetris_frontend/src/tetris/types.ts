@@ -2,17 +2,18 @@
 // Types for the Tetris game.
 //
 
+// Only classic 7 tetrominos.
+export type TetrominoType = "I" | "O" | "T" | "S" | "Z" | "J" | "L";
+
+// The type of piece a settled block came from, or null if empty. Colours
+// come from the theme at render time.
 // PUBLIC_INTERFACE
-export type Cell = {
-  filled: boolean;
-  color: string;
-};
+export type Cell = TetrominoType | null;
 
 export type Board = Cell[][];
 
 export type Tetromino = {
   shape: number[][];
-  color: string;
 };
 
 export type Position = {
@@ -20,8 +21,18 @@ export type Position = {
   y: number;
 };
 
-// Only classic 7 tetrominos.
-export type TetrominoType = "I" | "O" | "T" | "S" | "Z" | "J" | "L";
+// SRS rotation states: 0 = spawn, 1 = R (clockwise), 2 = 180, 3 = L.
+export type RotationState = 0 | 1 | 2 | 3;
+
+export type RotationDirection = "cw" | "ccw" | "180";
+
+// PUBLIC_INTERFACE
+export type PieceState = {
+  type: TetrominoType;
+  shape: number[][];
+  pos: Position;
+  rotation: RotationState;
+};
 
 // PUBLIC_INTERFACE
 export type GameStatus = "running" | "paused" | "gameover";